@@ -2,18 +2,41 @@ import { useState, useCallback } from 'react';
 import {
   TestCaseType,
   TestCaseConfig,
+  TestCaseParams,
+  TestCaseParamName,
   GeneratedTestSuite,
   TEST_CASE_CONFIGS,
+  TEST_CASE_PARAM_DEFAULTS,
+  TEST_CASE_PARAM_LIMITS,
+  RECEIVABLES_ONLY_TYPES,
   TransactionDirection,
   Invoice,
+  DunningLetter,
+  BankTextProfile,
+  BANK_TEXT_PROFILES,
+  CsvDialectPreset,
+  CSV_DIALECT_PRESETS,
+  FacturXProfile,
+  FACTUR_X_PROFILES,
 } from '../shared/types';
 import {
   generateInvoicePDF,
   generateAllInvoicesZip,
+  generateDunningLetterPDF,
+  getDunningLetterFileName,
+  getEInvoiceFileName,
+  getInvoiceFileName,
   downloadBlob,
   downloadCSV,
   downloadJSON,
 } from './utils/pdfGenerator';
+import { formatMoney } from '../shared/currency';
+import { generateCamt053 } from '../shared/camt053';
+import { generateMt940 } from '../shared/mt940';
+import { encodeCsv, generateBankTransactionsCsv } from '../shared/csv';
+import { getSortedStatementRows, getTestCaseTransactions } from '../shared/statement';
+import { generateXRechnungXml } from '../shared/facturx';
+import { generatePeppolUbl } from '../shared/ubl';
 
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
@@ -37,26 +60,50 @@ import {
   Calendar,
   ArrowDownLeft,
   ArrowUpRight,
+  Users,
 } from 'lucide-react';
 
-type TestCaseCategory = 'matches' | 'discounts' | 'fx' | 'partial';
+type TestCaseCategory =
+  | 'matches'
+  | 'installments'
+  | 'credit_notes'
+  | 'discounts'
+  | 'fx'
+  | 'bank_charges'
+  | 'partial'
+  | 'duplicates'
+  | 'hard_negatives'
+  | 'unmatched';
 
 const CATEGORY_LABELS: Record<TestCaseCategory, string> = {
   matches: 'Perfect Matches',
+  installments: 'Installment Payments',
+  credit_notes: 'Credit Notes & Refunds',
   discounts: 'Discount Cases',
   fx: 'FX Adjustments',
+  bank_charges: 'Bank Charges',
   partial: 'Partial Matches',
+  duplicates: 'Duplicate Payments',
+  hard_negatives: 'Hard Negatives',
+  unmatched: 'Unmatched Cases',
 };
 
 const TEST_CASE_CATEGORIES: Record<TestCaseCategory, TestCaseType[]> = {
-  matches: ['perfect_match', 'group_payment'],
-  discounts: ['discount_1_percent', 'discount_2_percent', 'discount_3_percent'],
+  matches: ['perfect_match', 'group_payment', 'psp_payout'],
+  installments: ['installment_payment', 'partial_payment_then_remainder'],
+  credit_notes: ['credit_note_refund', 'credit_note_netting'],
+  discounts: ['discount_1_percent', 'discount_2_percent', 'discount_3_percent', 'discount_after_window'],
   fx: ['fx_gain', 'fx_loss'],
-  partial: ['partial_match_no_description', 'partial_match_amount_mismatch', 'partial_match_date_far'],
+  bank_charges: ['bank_charges_deducted', 'bank_charges_separate_fee'],
+  partial: ['partial_match_no_description', 'partial_match_amount_mismatch', 'partial_match_date_far', 'late_payment_with_fees'],
+  duplicates: ['duplicate_payment'],
+  hard_negatives: ['ambiguous_lookalike_invoices', 'third_party_payment'],
+  unmatched: ['open_invoice'],
 };
 
 const getBadgeVariant = (type: TestCaseType): 'success' | 'warning' | 'info' | 'destructive' => {
   if (type === 'perfect_match') return 'success';
+  if (type === 'discount_after_window') return 'destructive';
   if (type.startsWith('discount')) return 'warning';
   if (type.startsWith('fx')) return 'info';
   return 'destructive';
@@ -81,14 +128,27 @@ const QUICK_CONFIGS: { label: string; description: string; cases: Map<TestCaseTy
     cases: new Map([
       ['perfect_match', 2],
       ['group_payment', 2],
+      ['psp_payout', 2],
+      ['installment_payment', 2],
+      ['partial_payment_then_remainder', 2],
+      ['credit_note_refund', 2],
+      ['credit_note_netting', 2],
       ['discount_1_percent', 2],
       ['discount_2_percent', 2],
       ['discount_3_percent', 2],
+      ['discount_after_window', 2],
       ['fx_gain', 2],
       ['fx_loss', 2],
+      ['bank_charges_deducted', 2],
+      ['bank_charges_separate_fee', 2],
       ['partial_match_no_description', 2],
       ['partial_match_amount_mismatch', 2],
       ['partial_match_date_far', 2],
+      ['late_payment_with_fees', 2],
+      ['duplicate_payment', 2],
+      ['ambiguous_lookalike_invoices', 2],
+      ['third_party_payment', 2],
+      ['open_invoice', 2],
     ]),
   },
   {
@@ -108,6 +168,7 @@ const QUICK_CONFIGS: { label: string; description: string; cases: Map<TestCaseTy
       ['discount_1_percent', 5],
       ['discount_2_percent', 5],
       ['discount_3_percent', 5],
+      ['discount_after_window', 5],
     ]),
   },
   {
@@ -125,6 +186,7 @@ const QUICK_CONFIGS: { label: string; description: string; cases: Map<TestCaseTy
       ['partial_match_no_description', 5],
       ['partial_match_amount_mismatch', 5],
       ['partial_match_date_far', 5],
+      ['late_payment_with_fees', 5],
     ]),
   },
 ];
@@ -136,10 +198,36 @@ function getDefaultStartDate(): string {
   return date.toISOString().split('T')[0];
 }
 
+// What is wrong with a seed typed into the form; null when it is empty (random) or a valid seed
+function getSeedError(seedInput: string): string | null {
+  if (seedInput.trim() === '') {
+    return null;
+  }
+  const seed = Number(seedInput);
+  if (!Number.isInteger(seed)) {
+    return 'The seed must be a whole number.';
+  }
+  if (seed < 0 || seed > 0xffffffff) {
+    return 'The seed must be between 0 and 4294967295.';
+  }
+  return null;
+}
+
 function App() {
   const [selectedCases, setSelectedCases] = useState<Map<TestCaseType, number>>(new Map());
+  const [caseParams, setCaseParams] = useState<Map<TestCaseType, TestCaseParams>>(new Map());
   const [selectedDirections, setSelectedDirections] = useState<Set<TransactionDirection>>(new Set(['payables']));
   const [companyName, setCompanyName] = useState('Acme Corporation GmbH');
+  const [seedInput, setSeedInput] = useState('');
+  const [noisePercent, setNoisePercent] = useState(0);
+  const [openInvoicePercent, setOpenInvoicePercent] = useState(0);
+  const [corruptionPercent, setCorruptionPercent] = useState(0);
+  const [bankTextProfile, setBankTextProfile] = useState<BankTextProfile>('plain');
+  const [csvDialect, setCsvDialect] = useState<CsvDialectPreset>('default');
+  const [facturXProfile, setFacturXProfile] = useState<FacturXProfile | 'off'>('off');
+  const [facturXMismatchPercent, setFacturXMismatchPercent] = useState(0);
+  const [poolSize, setPoolSize] = useState(0);
+  const [zipfExponent, setZipfExponent] = useState(1);
   const [dateRange, setDateRange] = useState({
     start: getDefaultStartDate(),
     end: new Date().toISOString().split('T')[0],
@@ -178,6 +266,30 @@ function App() {
     setGeneratedSuite(null); // Clear results when config changes
   }, []);
 
+  // Set one bound of a parameter range; the other bound starts at the type's default, clearing resets the range
+  const updateCaseParam = useCallback(
+    (type: TestCaseType, name: TestCaseParamName, bound: 'min' | 'max', value: string) => {
+      setCaseParams((prev) => {
+        const updated = new Map(prev);
+        const params: TestCaseParams = { ...updated.get(type) };
+        const current = params[name] ?? TEST_CASE_PARAM_DEFAULTS[type][name];
+        if (value.trim() === '' || !current) {
+          delete params[name];
+        } else {
+          params[name] = { ...current, [bound]: Number(value) };
+        }
+        if (Object.keys(params).length === 0) {
+          updated.delete(type);
+        } else {
+          updated.set(type, params);
+        }
+        return updated;
+      });
+      setGeneratedSuite(null); // Clear results when config changes
+    },
+    []
+  );
+
   const getCasesPerDirection = useCallback(() => {
     let total = 0;
     selectedCases.forEach((qty) => (total += qty));
@@ -207,14 +319,27 @@ function App() {
 
   const clearAll = () => {
     setSelectedCases(new Map());
+    setCaseParams(new Map());
     setGeneratedSuite(null);
     setExpandedCases(new Set());
     setSelectedDirections(new Set(['payables']));
     setCompanyName('Acme Corporation GmbH');
+    setSeedInput('');
+    setNoisePercent(0);
+    setOpenInvoicePercent(0);
+    setCorruptionPercent(0);
+    setBankTextProfile('plain');
+    setCsvDialect('default');
+    setFacturXProfile('off');
+    setFacturXMismatchPercent(0);
+    setPoolSize(0);
+    setZipfExponent(1);
   };
 
+  const seedError = getSeedError(seedInput);
+
   const handleGenerate = async () => {
-    if (selectedCases.size === 0 || selectedDirections.size === 0) {
+    if (selectedCases.size === 0 || selectedDirections.size === 0 || seedError) {
       return;
     }
 
@@ -229,22 +354,44 @@ function App() {
           label: config.label,
           description: config.description,
           quantity,
+          params: caseParams.get(type),
         });
       });
 
       const directions = Array.from(selectedDirections);
       const suites: GeneratedTestSuite[] = [];
 
-      // Generate for each selected direction
-      for (const direction of directions) {
+      // Pick a base seed up front so mixed suites can be rebuilt from a single number
+      const baseSeed = seedInput.trim() !== ''
+        ? Number(seedInput)
+        : Math.floor(Math.random() * 0x100000000);
+
+      // Generate for each selected direction (offset the seed so directions don't share counterparties)
+      for (const [index, direction] of directions.entries()) {
+        // Receivables-only types are left out of payables; skip a direction that has nothing left
+        const directionConfigs = direction === 'receivables'
+          ? configs
+          : configs.filter((config) => !RECEIVABLES_ONLY_TYPES.includes(config.type));
+        if (directionConfigs.length === 0) {
+          continue;
+        }
+
         const response = await fetch('/api/generate', {
           method: 'POST',
           headers: { 'Content-Type': 'application/json' },
           body: JSON.stringify({
-            cases: configs,
+            cases: directionConfigs,
             direction,
             dateRange,
             myCompany: { name: companyName },
+            seed: (baseSeed + index) % 0x100000000,
+            noisePercent,
+            openInvoicePercent,
+            referenceCorruption: { percent: corruptionPercent },
+            bankTextProfile,
+            csvDialect,
+            counterpartyPool: poolSize > 0 ? { size: poolSize, zipfExponent } : undefined,
+            facturX: facturXProfile !== 'off' ? { profile: facturXProfile, mismatchPercent: facturXMismatchPercent } : undefined,
           }),
         });
 
@@ -256,24 +403,42 @@ function App() {
         suites.push(suite);
       }
 
+      if (suites.length === 0) {
+        alert('The selected test case types are only available for receivables.');
+        return;
+      }
+
       // Merge suites if multiple directions
       if (suites.length === 1) {
         setGeneratedSuite(suites[0]);
       } else {
-        // Combine all cases and CSV content
+        // Combine all cases; the CSV is rewritten from the combined statement rows
         const allCases = suites.flatMap((s) => s.cases);
-        const csvLines = suites.map((s) => s.csvContent.split('\n'));
-        const header = csvLines[0][0]; // Get header from first suite
-        const allDataRows = csvLines.flatMap((lines) => lines.slice(1)); // Skip header from each
-        allDataRows.sort((a, b) => a.split(';')[0].localeCompare(b.split(';')[0])); // Sort by date
 
         const mergedSuite: GeneratedTestSuite = {
           id: suites[0].id,
           createdAt: new Date().toISOString(),
           direction: 'mixed',
+          seed: baseSeed,
+          generatorVersion: suites[0].generatorVersion,
           cases: allCases,
-          csvContent: [header, ...allDataRows].join('\n'),
+          noiseTransactions: suites.flatMap((s) => s.noiseTransactions),
+          csvContent: '',
+          csvDialect: suites[0].csvDialect,
+          counterparties: suites.flatMap((s) => s.counterparties),
+          masterDataCsv: [
+            suites[0].masterDataCsv.split('\n')[0],
+            ...suites.flatMap((s) => s.masterDataCsv.split('\n').slice(1)),
+          ].join('\n'),
+          settlementReportCsv: [
+            suites[0].settlementReportCsv.split('\n')[0],
+            ...suites.flatMap((s) => s.settlementReportCsv.split('\n').slice(1)),
+          ].join('\n'),
         };
+        mergedSuite.csvContent = generateBankTransactionsCsv(
+          getSortedStatementRows(mergedSuite).map((row) => row.transaction),
+          mergedSuite.csvDialect
+        );
         setGeneratedSuite(mergedSuite);
       }
     } catch (error) {
@@ -288,13 +453,14 @@ function App() {
     if (!generatedSuite) return;
     const dateStr = new Date().toISOString().split('T')[0];
     const filename = `${dateStr}_bank_transactions_${generatedSuite.direction}_${generatedSuite.id.slice(0, 8)}.csv`;
-    downloadCSV(generatedSuite.csvContent, filename);
+    downloadCSV(generatedSuite.csvContent, filename, generatedSuite.csvDialect.encoding);
   };
 
   const handleDownloadAllPDFs = async () => {
     if (!generatedSuite) return;
-    const invoices = generatedSuite.cases.map((tc) => tc.invoice);
-    const zipBlob = await generateAllInvoicesZip(invoices);
+    const invoices = generatedSuite.cases.flatMap((tc) => tc.invoices ?? [tc.invoice]);
+    const dunningLetters = generatedSuite.cases.flatMap((tc) => (tc.dunningLetter ? [tc.dunningLetter] : []));
+    const zipBlob = await generateAllInvoicesZip(invoices, dunningLetters);
     const dateStr = new Date().toISOString().split('T')[0];
     const filename = `${dateStr}_invoices_${generatedSuite.direction}_${generatedSuite.id.slice(0, 8)}.zip`;
     downloadBlob(zipBlob, filename);
@@ -305,16 +471,27 @@ function App() {
     const testCase = generatedSuite.cases.find((tc) => tc.id === testCaseId);
     if (!testCase) return;
     const pdfBlob = generateInvoicePDF(testCase.invoice);
-    const filename = `${testCase.invoice.number.replace(/[^a-zA-Z0-9-]/g, '_')}.pdf`;
+    const filename = getInvoiceFileName(testCase.invoice);
     downloadBlob(pdfBlob, filename);
   };
 
+  const handleDownloadDunningLetterPDF = (letter: DunningLetter) => {
+    downloadBlob(generateDunningLetterPDF(letter), getDunningLetterFileName(letter));
+  };
+
   const handleDownloadGroupInvoicePDF = (invoice: Invoice) => {
     const pdfBlob = generateInvoicePDF(invoice);
-    const filename = `${invoice.number.replace(/[^a-zA-Z0-9-]/g, '_')}.pdf`;
+    const filename = getInvoiceFileName(invoice);
     downloadBlob(pdfBlob, filename);
   };
 
+  const handleDownloadMasterData = () => {
+    if (!generatedSuite) return;
+    const dateStr = new Date().toISOString().split('T')[0];
+    const filename = `${dateStr}_master_data_${generatedSuite.direction}_${generatedSuite.id.slice(0, 8)}.csv`;
+    downloadCSV(generatedSuite.masterDataCsv, filename);
+  };
+
   const handleDownloadJSON = () => {
     if (!generatedSuite) return;
     const dateStr = new Date().toISOString().split('T')[0];
@@ -335,26 +512,48 @@ function App() {
         const JSZip = (await import('jszip')).default;
         const zip = new JSZip();
 
-        zip.file('bank_transactions.csv', generatedSuite.csvContent);
+        zip.file('bank_transactions.csv', encodeCsv(generatedSuite.csvContent, generatedSuite.csvDialect.encoding));
+        zip.file('bank_statement.camt053.xml', generateCamt053(generatedSuite));
+        zip.file('bank_statement.mt940.sta', generateMt940(generatedSuite));
         zip.file('test_suite_metadata.json', JSON.stringify(generatedSuite, null, 2));
+        zip.file('master_data.csv', generatedSuite.masterDataCsv);
+        if (generatedSuite.cases.some((tc) => tc.pspPayout)) {
+          zip.file('settlement_report.csv', generatedSuite.settlementReportCsv);
+        }
+        const usedNames = new Set<string>();
+        const eInvoiceNames = new Set<string>();
 
         for (const tc of generatedSuite.cases) {
           try {
-            // For group payments, generate PDFs for all invoices in the group
-            if (tc.type === 'group_payment' && tc.invoices) {
+            // For group payments and credit notes, generate PDFs for all invoices in the case
+            if (tc.invoices) {
               for (const invoice of tc.invoices) {
                 const pdfBlob = generateInvoicePDF(invoice);
-                const fileName = `invoices/${invoice.number.replace(/[^a-zA-Z0-9-]/g, '_')}.pdf`;
+                const fileName = `invoices/${getInvoiceFileName(invoice, usedNames)}`;
                 zip.file(fileName, pdfBlob);
               }
             } else {
               const pdfBlob = generateInvoicePDF(tc.invoice);
-              const fileName = `invoices/${tc.invoice.number.replace(/[^a-zA-Z0-9-]/g, '_')}.pdf`;
+              const fileName = `invoices/${getInvoiceFileName(tc.invoice, usedNames)}`;
               zip.file(fileName, pdfBlob);
             }
+            if (tc.dunningLetter) {
+              const letterName = `invoices/${getDunningLetterFileName(tc.dunningLetter, usedNames)}`;
+              zip.file(letterName, generateDunningLetterPDF(tc.dunningLetter));
+            }
           } catch (pdfError) {
             console.error(`Error generating PDF for ${tc.invoice.number}:`, pdfError);
           }
+          for (const invoice of tc.invoices ?? [tc.invoice]) {
+            try {
+              const ublName = `einvoices/${getEInvoiceFileName(invoice, 'ubl', eInvoiceNames)}`;
+              const xrechnungName = `einvoices/${getEInvoiceFileName(invoice, 'xrechnung', eInvoiceNames)}`;
+              zip.file(ublName, generatePeppolUbl(invoice));
+              zip.file(xrechnungName, generateXRechnungXml(invoice));
+            } catch (xmlError) {
+              console.error(`Error generating e-invoice XML for ${invoice.number}:`, xmlError);
+            }
+          }
         }
 
         const zipBlob = await zip.generateAsync({ type: 'blob' });
@@ -486,6 +685,209 @@ function App() {
                   />
                 </div>
               </div>
+
+              {/* Seed Input */}
+              <div className="flex flex-col sm:flex-row sm:items-center gap-4 pt-4 border-t border-slate-100">
+                <div className="flex-1">
+                  <h3 className="font-medium text-slate-900">Seed</h3>
+                  <p className="text-sm text-slate-500">
+                    Reuse the seed of a previous suite to regenerate it exactly; leave empty for a random one
+                  </p>
+                </div>
+                <div className="sm:w-80">
+                  <Input
+                    type="number"
+                    min="0"
+                    value={seedInput}
+                    onChange={(e) => { setSeedInput(e.target.value); setGeneratedSuite(null); }}
+                    placeholder="Random"
+                  />
+                  {seedError && <p className="mt-1 text-xs text-red-600">{seedError}</p>}
+                </div>
+              </div>
+
+              {/* Noise Share Input */}
+              <div className="flex flex-col sm:flex-row sm:items-center gap-4 pt-4 border-t border-slate-100">
+                <div className="flex-1">
+                  <h3 className="font-medium text-slate-900">Noise Transactions (%)</h3>
+                  <p className="text-sm text-slate-500">
+                    Share of statement rows with no matching invoice (card purchases, salaries, taxes, fees, rent, transfers)
+                  </p>
+                </div>
+                <div className="sm:w-80">
+                  <Input
+                    type="number"
+                    min="0"
+                    max="90"
+                    value={noisePercent}
+                    onChange={(e) => {
+                      setNoisePercent(Math.min(90, Math.max(0, parseInt(e.target.value) || 0)));
+                      setGeneratedSuite(null);
+                    }}
+                  />
+                </div>
+              </div>
+
+              {/* Open Invoice Share Input */}
+              <div className="flex flex-col sm:flex-row sm:items-center gap-4 pt-4 border-t border-slate-100">
+                <div className="flex-1">
+                  <h3 className="font-medium text-slate-900">Open Invoices (%)</h3>
+                  <p className="text-sm text-slate-500">
+                    Share of all invoices that stay unpaid and have no transaction on the statement
+                  </p>
+                </div>
+                <div className="sm:w-80">
+                  <Input
+                    type="number"
+                    min="0"
+                    max="90"
+                    value={openInvoicePercent}
+                    onChange={(e) => {
+                      setOpenInvoicePercent(Math.min(90, Math.max(0, parseInt(e.target.value) || 0)));
+                      setGeneratedSuite(null);
+                    }}
+                  />
+                </div>
+              </div>
+
+              {/* Reference Corruption Input */}
+              <div className="flex flex-col sm:flex-row sm:items-center gap-4 pt-4 border-t border-slate-100">
+                <div className="flex-1">
+                  <h3 className="font-medium text-slate-900">Corrupted References (%)</h3>
+                  <p className="text-sm text-slate-500">
+                    Share of invoice numbers in descriptions that get mangled (missing prefix, dropped zeros, typos, OCR errors, separators)
+                  </p>
+                </div>
+                <div className="sm:w-80">
+                  <Input
+                    type="number"
+                    min="0"
+                    max="100"
+                    value={corruptionPercent}
+                    onChange={(e) => {
+                      setCorruptionPercent(Math.min(100, Math.max(0, parseInt(e.target.value) || 0)));
+                      setGeneratedSuite(null);
+                    }}
+                  />
+                </div>
+              </div>
+
+              {/* Bank Text Profile Select */}
+              <div className="flex flex-col sm:flex-row sm:items-center gap-4 pt-4 border-t border-slate-100">
+                <div className="flex-1">
+                  <h3 className="font-medium text-slate-900">Bank Text Profile</h3>
+                  <p className="text-sm text-slate-500">{BANK_TEXT_PROFILES[bankTextProfile].description}</p>
+                </div>
+                <div className="sm:w-80">
+                  <select
+                    value={bankTextProfile}
+                    onChange={(e) => { setBankTextProfile(e.target.value as BankTextProfile); setGeneratedSuite(null); }}
+                    className="flex h-9 w-full rounded-md border border-input bg-transparent px-3 py-1 text-sm shadow-sm focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring"
+                  >
+                    {(Object.keys(BANK_TEXT_PROFILES) as BankTextProfile[]).map((profile) => (
+                      <option key={profile} value={profile}>
+                        {BANK_TEXT_PROFILES[profile].label}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              </div>
+
+              {/* CSV Dialect Select */}
+              <div className="flex flex-col sm:flex-row sm:items-center gap-4 pt-4 border-t border-slate-100">
+                <div className="flex-1">
+                  <h3 className="font-medium text-slate-900">CSV Dialect</h3>
+                  <p className="text-sm text-slate-500">{CSV_DIALECT_PRESETS[csvDialect].description}</p>
+                </div>
+                <div className="sm:w-80">
+                  <select
+                    value={csvDialect}
+                    onChange={(e) => { setCsvDialect(e.target.value as CsvDialectPreset); setGeneratedSuite(null); }}
+                    className="flex h-9 w-full rounded-md border border-input bg-transparent px-3 py-1 text-sm shadow-sm focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring"
+                  >
+                    {(Object.keys(CSV_DIALECT_PRESETS) as CsvDialectPreset[]).map((preset) => (
+                      <option key={preset} value={preset}>
+                        {CSV_DIALECT_PRESETS[preset].label}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              </div>
+
+              {/* Counterparty Pool Inputs */}
+              <div className="flex flex-col sm:flex-row sm:items-center gap-4 pt-4 border-t border-slate-100">
+                <div className="flex-1">
+                  <h3 className="font-medium text-slate-900">Counterparty Pool</h3>
+                  <p className="text-sm text-slate-500">
+                    Number of recurring counterparties (0 = new one per case) and how skewed their frequency is (Zipf exponent, 0 = uniform)
+                  </p>
+                </div>
+                <div className="sm:w-80 flex gap-2">
+                  <Input
+                    type="number"
+                    min="0"
+                    max="500"
+                    value={poolSize}
+                    onChange={(e) => {
+                      setPoolSize(Math.min(500, Math.max(0, parseInt(e.target.value) || 0)));
+                      setGeneratedSuite(null);
+                    }}
+                    aria-label="Pool size"
+                  />
+                  <Input
+                    type="number"
+                    min="0"
+                    max="3"
+                    step="0.1"
+                    value={zipfExponent}
+                    disabled={poolSize === 0}
+                    onChange={(e) => {
+                      setZipfExponent(Math.min(3, Math.max(0, parseFloat(e.target.value) || 0)));
+                      setGeneratedSuite(null);
+                    }}
+                    aria-label="Zipf exponent"
+                  />
+                </div>
+              </div>
+
+              {/* Factur-X Inputs */}
+              <div className="flex flex-col sm:flex-row sm:items-center gap-4 pt-4 border-t border-slate-100">
+                <div className="flex-1">
+                  <h3 className="font-medium text-slate-900">Factur-X / ZUGFeRD</h3>
+                  <p className="text-sm text-slate-500">
+                    {facturXProfile === 'off'
+                      ? 'Visual PDF invoices only'
+                      : `${FACTUR_X_PROFILES[facturXProfile].description}. Share of invoices whose XML disagrees with the PDF (%)`}
+                  </p>
+                </div>
+                <div className="sm:w-80 flex gap-2">
+                  <select
+                    value={facturXProfile}
+                    onChange={(e) => { setFacturXProfile(e.target.value as FacturXProfile | 'off'); setGeneratedSuite(null); }}
+                    className="flex h-9 w-full rounded-md border border-input bg-transparent px-3 py-1 text-sm shadow-sm focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring"
+                    aria-label="Factur-X profile"
+                  >
+                    <option value="off">Off</option>
+                    {(Object.keys(FACTUR_X_PROFILES) as FacturXProfile[]).map((profile) => (
+                      <option key={profile} value={profile}>
+                        {FACTUR_X_PROFILES[profile].label}
+                      </option>
+                    ))}
+                  </select>
+                  <Input
+                    type="number"
+                    min="0"
+                    max="100"
+                    value={facturXMismatchPercent}
+                    disabled={facturXProfile === 'off'}
+                    onChange={(e) => {
+                      setFacturXMismatchPercent(Math.min(100, Math.max(0, parseInt(e.target.value) || 0)));
+                      setGeneratedSuite(null);
+                    }}
+                    aria-label="Factur-X mismatch percent"
+                  />
+                </div>
+              </div>
             </CardContent>
           </Card>
 
@@ -575,7 +977,7 @@ function App() {
                   <Button
                     type="button"
                     onClick={handleGenerate}
-                    disabled={isGenerating || getTotalCases() === 0}
+                    disabled={isGenerating || getTotalCases() === 0 || seedError !== null}
                     className="gap-2 bg-blue-600 hover:bg-blue-700"
                   >
                     {isGenerating ? (
@@ -604,49 +1006,94 @@ function App() {
                       {TEST_CASE_CATEGORIES[category].map((type) => {
                         const config = TEST_CASE_CONFIGS[type];
                         const quantity = selectedCases.get(type) || 0;
+                        const paramNames = Object.keys(TEST_CASE_PARAM_DEFAULTS[type]) as TestCaseParamName[];
+                        const params = caseParams.get(type);
                         return (
                           <div
                             key={type}
-                            className={`flex items-center justify-between gap-2 rounded-lg border p-2.5 transition-all ${
+                            className={`rounded-lg border p-2.5 transition-all ${
                               quantity > 0
                                 ? 'border-blue-200 bg-blue-50/50'
                                 : 'border-slate-200 hover:border-slate-300'
                             }`}
                           >
-                            <p className="text-sm text-slate-700 truncate flex-1" title={config.label}>
-                              {config.label}
-                            </p>
-                            <div className="flex items-center gap-1">
-                              <Button
-                                type="button"
-                                variant="ghost"
-                                size="icon"
-                                className="h-7 w-7 text-slate-500 hover:text-slate-700"
-                                onClick={() => updateCaseQuantity(type, quantity - 1)}
-                                disabled={quantity <= 0}
-                              >
-                                <Minus className="h-3 w-3" />
-                              </Button>
-                              <Input
-                                type="number"
-                                min="0"
-                                max="100"
-                                value={quantity}
-                                onChange={(e) =>
-                                  updateCaseQuantity(type, parseInt(e.target.value) || 0)
-                                }
-                                className="h-7 w-12 text-center text-sm px-1 border-slate-200"
-                              />
-                              <Button
-                                type="button"
-                                variant="ghost"
-                                size="icon"
-                                className="h-7 w-7 text-slate-500 hover:text-slate-700"
-                                onClick={() => updateCaseQuantity(type, quantity + 1)}
-                              >
-                                <Plus className="h-3 w-3" />
-                              </Button>
+                            <div className="flex items-center justify-between gap-2">
+                              <p className="text-sm text-slate-700 truncate flex-1" title={config.label}>
+                                {config.label}
+                              </p>
+                              <div className="flex items-center gap-1">
+                                <Button
+                                  type="button"
+                                  variant="ghost"
+                                  size="icon"
+                                  className="h-7 w-7 text-slate-500 hover:text-slate-700"
+                                  onClick={() => updateCaseQuantity(type, quantity - 1)}
+                                  disabled={quantity <= 0}
+                                >
+                                  <Minus className="h-3 w-3" />
+                                </Button>
+                                <Input
+                                  type="number"
+                                  min="0"
+                                  max="100"
+                                  value={quantity}
+                                  onChange={(e) =>
+                                    updateCaseQuantity(type, parseInt(e.target.value) || 0)
+                                  }
+                                  className="h-7 w-12 text-center text-sm px-1 border-slate-200"
+                                />
+                                <Button
+                                  type="button"
+                                  variant="ghost"
+                                  size="icon"
+                                  className="h-7 w-7 text-slate-500 hover:text-slate-700"
+                                  onClick={() => updateCaseQuantity(type, quantity + 1)}
+                                >
+                                  <Plus className="h-3 w-3" />
+                                </Button>
+                              </div>
                             </div>
+                            {/* Tuning parameters, with the defaults as placeholders */}
+                            {quantity > 0 && paramNames.length > 0 && (
+                              <Collapsible defaultOpen={params !== undefined}>
+                                <CollapsibleTrigger asChild>
+                                  <button
+                                    type="button"
+                                    className="mt-1 flex items-center gap-1 text-xs text-slate-500 hover:text-slate-700"
+                                  >
+                                    <ChevronDown className="h-3 w-3" />
+                                    Parameters{params ? ' (custom)' : ''}
+                                  </button>
+                                </CollapsibleTrigger>
+                                <CollapsibleContent>
+                                  <div className="mt-2 space-y-1.5">
+                                    {paramNames.map((name) => {
+                                      const limits = TEST_CASE_PARAM_LIMITS[name];
+                                      const defaults = TEST_CASE_PARAM_DEFAULTS[type][name];
+                                      return (
+                                        <div key={name} className="flex items-center gap-1.5">
+                                          <span className="text-xs text-slate-500 flex-1">{limits.label}</span>
+                                          {(['min', 'max'] as const).map((bound) => (
+                                            <Input
+                                              key={bound}
+                                              type="number"
+                                              min={limits.min}
+                                              max={limits.max}
+                                              step={limits.integer ? 1 : 0.01}
+                                              placeholder={defaults?.[bound].toString()}
+                                              value={params?.[name]?.[bound] ?? ''}
+                                              onChange={(e) => updateCaseParam(type, name, bound, e.target.value)}
+                                              className="h-6 w-16 text-center text-xs px-1 border-slate-200 bg-white"
+                                              aria-label={`${limits.label} ${bound}`}
+                                            />
+                                          ))}
+                                        </div>
+                                      );
+                                    })}
+                                  </div>
+                                </CollapsibleContent>
+                              </Collapsible>
+                            )}
                           </div>
                         );
                       })}
@@ -686,6 +1133,9 @@ function App() {
                     </div>
                     <p className="text-sm text-slate-500">
                       {generatedSuite.cases.length} test cases ready for download
+                      {generatedSuite.noiseTransactions.length > 0 &&
+                        ` (+${generatedSuite.noiseTransactions.length} noise transactions)`}
+                      <span className="text-slate-400"> · seed {generatedSuite.seed} · v{generatedSuite.generatorVersion}</span>
 				</p>
 			</div>
                   <div className="flex flex-wrap gap-2">
@@ -710,6 +1160,10 @@ function App() {
                       <FolderArchive className="h-4 w-4" />
                       PDFs
                     </Button>
+                    <Button type="button" variant="outline" onClick={handleDownloadMasterData} className="gap-2">
+                      <Users className="h-4 w-4" />
+                      Master Data
+                    </Button>
                     <Button type="button" variant="outline" onClick={handleDownloadJSON} className="gap-2">
                       <Code className="h-4 w-4" />
                       JSON
@@ -771,9 +1225,9 @@ function App() {
                             </div>
                             <div className="text-right shrink-0">
                               <div className="text-sm font-mono font-medium text-slate-900">
-                                €{tc.invoice.total.toFixed(2)}
+                                {formatMoney(tc.invoice.total, tc.invoice.currency)}
                               </div>
-                              {tc.metadata.adjustedAmount !== tc.invoice.total && (
+                              {tc.transaction && tc.metadata.adjustedAmount !== Math.abs(tc.invoice.total) && (
                                 <div className="text-xs font-mono text-amber-600">
                                   → €{Math.abs(tc.transaction.amount_eur).toFixed(2)}
                                 </div>
@@ -788,8 +1242,8 @@ function App() {
                         </CollapsibleTrigger>
                         <CollapsibleContent>
                           <div className="border-t border-slate-100 px-3 py-3 space-y-3 bg-slate-50">
-                            {/* For group payments, show all invoices */}
-                            {tc.type === 'group_payment' && tc.invoices ? (
+                            {/* For group payments and credit notes, show all invoices */}
+                            {tc.invoices ? (
                               <div className="space-y-2">
                                 <p className="font-semibold text-slate-500 text-xs">
                                   Invoices ({tc.invoices.length})
@@ -800,10 +1254,15 @@ function App() {
                                       key={inv.id}
                                       className="flex items-center justify-between text-xs bg-white rounded border border-slate-200 px-2 py-1"
                                     >
-                                      <span className="font-mono text-slate-700">{inv.number}</span>
+                                      <span className="font-mono text-slate-700">
+                                        {inv.number}
+                                        {inv.number === tc.metadata.correctInvoiceNumber && (
+                                          <span className="ml-1 font-sans text-green-600">(paid)</span>
+                                        )}
+                                      </span>
                                       <span className="text-slate-500">{inv.date}</span>
                                       <span className="font-mono font-medium text-slate-900">
-                                        €{inv.total.toFixed(2)}
+                                        {formatMoney(inv.total, inv.currency)}
                                       </span>
                                     </div>
                                   ))}
@@ -818,23 +1277,68 @@ function App() {
                                 </div>
                                 <div>
                                   <p className="font-semibold text-slate-500 mb-1">Transaction</p>
-                                  <p className="text-slate-700">Date: {tc.transaction.date}</p>
-                                  <p className="text-slate-700 truncate" title={tc.transaction.description}>
-                                    {tc.transaction.description}
-                                  </p>
+                                  {tc.transactions ? (
+                                    <div className="space-y-1">
+                                      {tc.transactions.map((t, index) => (
+                                        <div
+                                          key={index}
+                                          className="flex items-center justify-between bg-white rounded border border-slate-200 px-2 py-1"
+                                          title={t.description}
+                                        >
+                                          <span className="text-slate-500">
+                                            {t.date}
+                                            {index === tc.metadata.duplicateTransactionIndex && (
+                                              <span className="ml-1 text-amber-600">(duplicate)</span>
+                                            )}
+                                          </span>
+                                          <span className="font-mono font-medium text-slate-900">
+                                            €{Math.abs(t.amount_eur).toFixed(2)}
+                                          </span>
+                                        </div>
+                                      ))}
+                                    </div>
+                                  ) : tc.transaction ? (
+                                    <>
+                                      <p className="text-slate-700">Date: {tc.transaction.date}</p>
+                                      {tc.transaction.value_date !== tc.transaction.date && (
+                                        <p className="text-slate-700">Value date: {tc.transaction.value_date}</p>
+                                      )}
+                                      <p className="text-slate-700 truncate" title={tc.transaction.description}>
+                                        {tc.transaction.description}
+                                      </p>
+                                    </>
+                                  ) : (
+                                    <p className="text-slate-500 italic">None (invoice is unpaid)</p>
+                                  )}
                                 </div>
                               </div>
                             )}
 
-                            {/* Transaction info for group payments */}
-                            {tc.type === 'group_payment' && (
-                              <div className="text-xs border-t border-slate-200 pt-2">
-                                <p className="font-semibold text-slate-500 mb-1">Transaction</p>
-                                <p className="text-slate-700">Date: {tc.transaction.date}</p>
-                                <p className="text-slate-700 truncate" title={tc.transaction.description}>
-                                  {tc.transaction.description}
-				</p>
-			</div>
+                            {/* Transaction info for cases with several invoices, e.g. a late fee paid separately */}
+                            {tc.invoices && getTestCaseTransactions(tc).length > 0 && (
+                              <div className="text-xs border-t border-slate-200 pt-2 space-y-2">
+                                <p className="font-semibold text-slate-500">
+                                  {tc.transactions ? `Transactions (${tc.transactions.length})` : 'Transaction'}
+                                </p>
+                                {getTestCaseTransactions(tc).map((t, index) => (
+                                  <div key={index}>
+                                    <p className="text-slate-700">
+                                      Date: {t.date}
+                                      {tc.transactions && (
+                                        <span className="ml-2 font-mono font-medium text-slate-900">
+                                          €{Math.abs(t.amount_eur).toFixed(2)}
+                                        </span>
+                                      )}
+                                    </p>
+                                    {t.value_date !== t.date && (
+                                      <p className="text-slate-700">Value date: {t.value_date}</p>
+                                    )}
+                                    <p className="text-slate-700 truncate" title={t.description}>
+                                      {t.description}
+                                    </p>
+                                  </div>
+                                ))}
+                              </div>
                             )}
 
                             <div className="flex flex-wrap gap-1">
@@ -854,7 +1358,7 @@ function App() {
                               <p className="text-xs text-slate-500">{tc.metadata.adjustmentReason}</p>
                             )}
 
-                            {tc.type === 'group_payment' && tc.invoices ? (
+                            {tc.invoices ? (
                               <div className="space-y-1">
                                 {tc.invoices.map((inv) => (
                                   <Button
@@ -888,6 +1392,22 @@ function App() {
                                 Download PDF
                               </Button>
                             )}
+
+                            {tc.dunningLetter && (
+                              <Button
+                                type="button"
+                                variant="outline"
+                                size="sm"
+                                onClick={(e) => {
+                                  e.stopPropagation();
+                                  if (tc.dunningLetter) handleDownloadDunningLetterPDF(tc.dunningLetter);
+                                }}
+                                className="w-full gap-2 text-xs"
+                              >
+                                <FileText className="h-3 w-3" />
+                                Download Dunning Letter
+                              </Button>
+                            )}
                           </div>
                         </CollapsibleContent>
                       </div>
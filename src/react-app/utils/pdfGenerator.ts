@@ -1,6 +1,9 @@
 import { jsPDF } from 'jspdf';
 import autoTable from 'jspdf-autotable';
-import { Invoice } from '../../shared/types';
+import { CsvEncoding, DunningLetter, FacturXEmbedding, Invoice } from '../../shared/types';
+import { formatMoney } from '../../shared/currency';
+import { encodeCsv } from '../../shared/csv';
+import { FACTUR_X_FILE_NAME, generateFacturXMetadata, generateFacturXml } from '../../shared/facturx';
 import JSZip from 'jszip';
 
 export function generateInvoicePDF(invoice: Invoice): Blob {
@@ -11,6 +14,7 @@ export function generateInvoicePDF(invoice: Invoice): Blob {
 
   // Determine if this is a receivable (we issued it) or payable (we received it)
   const isReceivable = invoice.direction === 'receivables';
+  const isCreditNote = invoice.documentType === 'credit_note';
 
   // Colors - different accent for receivables vs payables
   const primaryColor: [number, number, number] = isReceivable ? [22, 101, 52] : [41, 65, 114]; // Green for receivables, blue for payables
@@ -29,7 +33,10 @@ export function generateInvoicePDF(invoice: Invoice): Blob {
   doc.text(invoice.supplier.name, margin, 22);
 
   // Invoice type label and number - different for receivables vs payables
-  const invoiceTypeLabel = isReceivable ? 'SALES INVOICE' : 'VENDOR INVOICE';
+  let invoiceTypeLabel = isReceivable ? 'SALES INVOICE' : 'VENDOR INVOICE';
+  if (isCreditNote) {
+    invoiceTypeLabel = 'CREDIT NOTE';
+  }
   doc.setFontSize(9);
   doc.setFont('helvetica', 'normal');
   doc.text(invoiceTypeLabel, pageWidth - margin, 16, { align: 'right' });
@@ -79,6 +86,9 @@ export function generateInvoicePDF(invoice: Invoice): Blob {
   doc.text(`Phone: ${invoice.customer.phone}`, rightX, y);
   y += 4;
   doc.text(`Email: ${invoice.customer.email}`, rightX, y);
+  y += 4;
+  // The customer's VAT ID is mandatory on reverse-charge invoices
+  doc.text(`VAT ID: ${invoice.customer.vatId}`, rightX, y);
 
   // Invoice details box
   y = 100;
@@ -88,8 +98,9 @@ export function generateInvoicePDF(invoice: Invoice): Blob {
   y += 8;
   doc.setFontSize(7);
   doc.setTextColor(...lightGray);
-  doc.text('Invoice Date', margin + 8, y);
-  doc.text('Due Date', margin + 50, y);
+  // Credit notes point back to the invoice they credit instead of showing a due date
+  doc.text(isCreditNote ? 'Credit Note Date' : 'Invoice Date', margin + 8, y);
+  doc.text(isCreditNote ? 'Original Invoice' : 'Due Date', margin + 50, y);
   doc.text('Currency', margin + 92, y);
   doc.text('Status', pageWidth - margin - 25, y);
 
@@ -98,7 +109,7 @@ export function generateInvoicePDF(invoice: Invoice): Blob {
   doc.setFont('helvetica', 'bold');
   doc.setFontSize(8);
   doc.text(invoice.date, margin + 8, y);
-  doc.text(invoice.dueDate, margin + 50, y);
+  doc.text(isCreditNote ? invoice.originalInvoiceNumber ?? '' : invoice.dueDate, margin + 50, y);
   doc.text(invoice.currency, margin + 92, y);
 
   // Status badge - different for receivables (RECEIVABLE) vs payables (PAYABLE)
@@ -115,13 +126,13 @@ export function generateInvoicePDF(invoice: Invoice): Blob {
 
   const tableHead = [['Description', 'Qty', 'Unit Price', 'Tax', 'Amount']];
   const tableBody = invoice.items.map((item) => {
-    const amount = (item.quantity * item.price).toFixed(2);
+    const amount = item.quantity * item.price;
     return [
       item.name,
       item.quantity.toString(),
-      `€${item.price.toFixed(2)}`,
+      formatMoney(item.price, invoice.currency),
       `${item.tax}%`,
-      `€${amount}`,
+      formatMoney(amount, invoice.currency),
     ];
   });
 
@@ -165,12 +176,22 @@ export function generateInvoicePDF(invoice: Invoice): Blob {
 
   // Subtotal
   doc.text('Subtotal:', totalsX, y);
-  doc.text(`€${invoice.subtotal.toFixed(2)}`, pageWidth - margin, y, { align: 'right' });
-
-  // Tax
-  y += 6;
-  doc.text('Tax:', totalsX, y);
-  doc.text(`€${invoice.taxTotal.toFixed(2)}`, pageWidth - margin, y, { align: 'right' });
+  doc.text(formatMoney(invoice.subtotal, invoice.currency), pageWidth - margin, y, { align: 'right' });
+
+  // Tax, broken down per VAT rate; cross-border invoices only name why no VAT is charged
+  if (invoice.vatTreatment !== 'domestic') {
+    y += 6;
+    doc.text(invoice.vatTreatment === 'reverse_charge' ? 'VAT (reverse charge):' : 'VAT (not applicable):', totalsX, y);
+    doc.text(formatMoney(invoice.taxTotal, invoice.currency), pageWidth - margin, y, { align: 'right' });
+  } else {
+    doc.setFontSize(8);
+    for (const entry of invoice.taxBreakdown) {
+      y += 6;
+      doc.text(`VAT ${entry.rate}% on ${formatMoney(entry.taxableAmount, invoice.currency)}:`, totalsX, y);
+      doc.text(formatMoney(entry.taxAmount, invoice.currency), pageWidth - margin, y, { align: 'right' });
+    }
+    doc.setFontSize(9);
+  }
 
   // Divider
   y += 4;
@@ -182,15 +203,15 @@ export function generateInvoicePDF(invoice: Invoice): Blob {
   doc.setFont('helvetica', 'bold');
   doc.setFontSize(11);
   doc.setTextColor(...primaryColor);
-  doc.text('Total:', totalsX, y);
-  doc.text(`€${invoice.total.toFixed(2)}`, pageWidth - margin, y, { align: 'right' });
+  doc.text(isCreditNote ? 'Total Credit:' : 'Total:', totalsX, y);
+  doc.text(formatMoney(invoice.total, invoice.currency), pageWidth - margin, y, { align: 'right' });
 
   // Bank details and Note section - positioned with enough space from footer
   const bankDetailsY = Math.min(y + 20, pageHeight - 65);
 
   // Bank details box - different label for receivables vs payables
   doc.setFillColor(248, 250, 252);
-  doc.roundedRect(margin, bankDetailsY, 85, 28, 2, 2, 'F');
+  doc.roundedRect(margin, bankDetailsY, 85, invoice.paymentTerms ? 34 : 28, 2, 2, 'F');
 
   doc.setFontSize(8);
   doc.setTextColor(...primaryColor);
@@ -203,6 +224,9 @@ export function generateInvoicePDF(invoice: Invoice): Blob {
   doc.setFontSize(7);
   doc.text(`Bank: ${invoice.supplier.bankName}`, margin + 6, bankDetailsY + 15);
   doc.text(`IBAN: ${invoice.supplier.iban}`, margin + 6, bankDetailsY + 21);
+  if (invoice.paymentTerms) {
+    doc.text(`Terms: ${invoice.paymentTerms.text}`, margin + 6, bankDetailsY + 27);
+  }
 
   // Note (next to bank details)
   if (invoice.note) {
@@ -226,19 +250,239 @@ export function generateInvoicePDF(invoice: Invoice): Blob {
     { align: 'center' }
   );
 
+  if (invoice.facturX) {
+    embedFacturX(doc, invoice, invoice.facturX);
+  }
+
   return doc.output('blob');
 }
 
-export async function generateAllInvoicesZip(invoices: Invoice[]): Promise<Blob> {
+// jsPDF's object writer, which its own plugins use but its typings leave out
+interface JsPdfObjectWriter {
+  newObject(): number;
+  write(...values: string[]): void;
+}
+
+// UTF-8 bytes as a binary string, the form jsPDF buffers its output in
+function toBinaryString(text: string): string {
+  return Array.from(new TextEncoder().encode(text), (byte) => String.fromCharCode(byte)).join('');
+}
+
+function writeStream(writer: JsPdfObjectWriter, dictionary: string, content: string): number {
+  const objectNumber = writer.newObject();
+  writer.write(`<< ${dictionary} /Length ${content.length} >>`);
+  writer.write('stream');
+  writer.write(content);
+  writer.write('endstream');
+  writer.write('endobj');
+  return objectNumber;
+}
+
+// Attach the Factur-X XML the way hybrid invoice readers look for it: as the embedded file factur-x.xml, listed
+// under /Names and /AF in the catalog, with fx: XMP metadata naming the profile. The page is drawn with jsPDF's
+// standard fonts, which are not embedded, so the file is a readable hybrid but not a validated PDF/A-3.
+function embedFacturX(doc: jsPDF, invoice: Invoice, embedding: FacturXEmbedding): void {
+  const writer = doc.internal as unknown as JsPdfObjectWriter;
+  const xml = toBinaryString(generateFacturXml(invoice, embedding));
+  const metadata = toBinaryString(generateFacturXMetadata(embedding.profile));
+  // MINIMUM is not a full invoice, so its XML only supplements the PDF; the richer profiles can replace it
+  const relationship = embedding.profile === 'MINIMUM' ? 'Data' : 'Alternative';
+  let fileSpecObject = 0;
+  let metadataObject = 0;
+
+  doc.internal.events.subscribe('postPutResources', () => {
+    const modDate = `D:${invoice.date.replace(/-/g, '')}000000Z`;
+    const fileObject = writeStream(
+      writer,
+      `/Type /EmbeddedFile /Subtype /text#2Fxml /Params << /ModDate (${modDate}) /Size ${xml.length} >>`,
+      xml
+    );
+    fileSpecObject = writer.newObject();
+    writer.write(
+      `<< /Type /Filespec /F (${FACTUR_X_FILE_NAME}) /UF (${FACTUR_X_FILE_NAME}) /Desc (Factur-X invoice) ` +
+        `/AFRelationship /${relationship} /EF << /F ${fileObject} 0 R /UF ${fileObject} 0 R >> >>`
+    );
+    writer.write('endobj');
+    metadataObject = writeStream(writer, '/Type /Metadata /Subtype /XML', metadata);
+  });
+  doc.internal.events.subscribe('putCatalog', () => {
+    writer.write(`/Names << /EmbeddedFiles << /Names [(${FACTUR_X_FILE_NAME}) ${fileSpecObject} 0 R] >> >>`);
+    writer.write(`/AF [${fileSpecObject} 0 R]`);
+    writer.write(`/Metadata ${metadataObject} 0 R`);
+  });
+}
+
+export function generateDunningLetterPDF(letter: DunningLetter): Blob {
+  const doc = new jsPDF();
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const pageHeight = doc.internal.pageSize.getHeight();
+  const margin = 20;
+
+  // Same colors as the invoice the letter chases
+  const isReceivable = letter.direction === 'receivables';
+  const primaryColor: [number, number, number] = isReceivable ? [22, 101, 52] : [41, 65, 114];
+  const textColor: [number, number, number] = [55, 65, 81];
+  const lightGray: [number, number, number] = [156, 163, 175];
+
+  // Header background
+  doc.setFillColor(...primaryColor);
+  doc.rect(0, 0, pageWidth, 40, 'F');
+
+  doc.setTextColor(255, 255, 255);
+  doc.setFontSize(16);
+  doc.setFont('helvetica', 'bold');
+  doc.text(letter.supplier.name, margin, 22);
+  doc.setFontSize(9);
+  doc.setFont('helvetica', 'normal');
+  doc.text('PAYMENT REMINDER', pageWidth - margin, 16, { align: 'right' });
+  doc.setFontSize(12);
+  doc.setFont('helvetica', 'bold');
+  doc.text(letter.date, pageWidth - margin, 28, { align: 'right' });
+
+  // Addressee
+  let y = 52;
+  doc.setTextColor(...textColor);
+  doc.setFontSize(8);
+  doc.setFont('helvetica', 'bold');
+  doc.text('TO', margin, y);
+  y += 6;
+  doc.setFont('helvetica', 'normal');
+  doc.text(letter.customer.name, margin, y);
+  y += 4;
+  for (const line of letter.customer.address.split(', ')) {
+    doc.text(line, margin, y);
+    y += 4;
+  }
+
+  // Letter text
+  y += 10;
+  doc.setFontSize(10);
+  doc.setFont('helvetica', 'bold');
+  doc.text(`Overdue invoice ${letter.invoiceNumber}`, margin, y);
+  y += 8;
+  doc.setFontSize(9);
+  doc.setFont('helvetica', 'normal');
+  const body = doc.splitTextToSize(
+    `Our invoice ${letter.invoiceNumber} of ${letter.invoiceDate} was due on ${letter.dueDate} and is now ` +
+      `${letter.daysOverdue} days overdue. We have not yet received your payment. Please transfer the amount below ` +
+      `by ${letter.payBy}. Default interest of ${letter.interestRate}% p.a. continues to accrue until payment is received.`,
+    pageWidth - 2 * margin
+  );
+  doc.text(body, margin, y);
+  y += body.length * 5 + 6;
+
+  // Breakdown of the amount due
+  const rows = [
+    [`Outstanding amount of invoice ${letter.invoiceNumber}`, formatMoney(letter.outstandingAmount, letter.currency)],
+    [`Default interest ${letter.interestRate}% p.a. for ${letter.daysOverdue} days`, formatMoney(letter.interestAmount, letter.currency)],
+    ['Dunning fee', formatMoney(letter.dunningFee, letter.currency)],
+  ];
+  if (letter.flatCompensation > 0) {
+    rows.push(['Flat-rate compensation (§ 288(5) BGB)', formatMoney(letter.flatCompensation, letter.currency)]);
+  }
+
+  autoTable(doc, {
+    startY: y,
+    head: [['Description', 'Amount']],
+    body: rows,
+    foot: [['Total due', formatMoney(letter.totalDue, letter.currency)]],
+    theme: 'plain',
+    styles: {
+      fontSize: 8,
+      cellPadding: 4,
+      textColor: textColor,
+    },
+    headStyles: {
+      fillColor: [248, 250, 252],
+      textColor: primaryColor,
+      fontStyle: 'bold',
+    },
+    footStyles: {
+      textColor: primaryColor,
+      fontStyle: 'bold',
+    },
+    columnStyles: {
+      1: { halign: 'right', cellWidth: 36 },
+    },
+    margin: { left: margin, right: margin },
+  });
+
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  y = ((doc as any).lastAutoTable?.finalY || y + 40) + 12;
+
+  // Bank details
+  doc.setFillColor(248, 250, 252);
+  doc.roundedRect(margin, y, 85, 28, 2, 2, 'F');
+  doc.setFontSize(8);
+  doc.setTextColor(...primaryColor);
+  doc.setFont('helvetica', 'bold');
+  doc.text('Payment Details', margin + 6, y + 8);
+  doc.setFont('helvetica', 'normal');
+  doc.setTextColor(...textColor);
+  doc.setFontSize(7);
+  doc.text(`Bank: ${letter.supplier.bankName}`, margin + 6, y + 15);
+  doc.text(`IBAN: ${letter.supplier.iban}`, margin + 6, y + 21);
+
+  // Footer - fixed at bottom
+  const footerY = pageHeight - 12;
+  doc.setDrawColor(230, 230, 230);
+  doc.line(margin, footerY - 6, pageWidth - margin, footerY - 6);
+  doc.setFontSize(7);
+  doc.setTextColor(...lightGray);
+  doc.text(
+    `${letter.supplier.website} | ${letter.supplier.email}`,
+    pageWidth / 2,
+    footerY,
+    { align: 'center' }
+  );
+
+  return doc.output('blob');
+}
+
+// File name from a document number; numbers repeat across suppliers, so names already taken get a counter
+function getUniqueFileName(number: string, suffix: string, usedNames: Set<string>, extension = 'pdf'): string {
+  const base = `${number.replace(/[^a-zA-Z0-9-]/g, '_')}${suffix}`;
+  let fileName = `${base}.${extension}`;
+  for (let i = 2; usedNames.has(fileName); i++) {
+    fileName = `${base}_${i}.${extension}`;
+  }
+  usedNames.add(fileName);
+  return fileName;
+}
+
+export function getInvoiceFileName(invoice: Invoice, usedNames: Set<string> = new Set()): string {
+  return getUniqueFileName(invoice.number, '', usedNames);
+}
+
+// Dunning letters are named after the invoice they chase, so they sort next to it
+export function getDunningLetterFileName(letter: DunningLetter, usedNames: Set<string> = new Set()): string {
+  return getUniqueFileName(letter.invoiceNumber, '_reminder', usedNames);
+}
+
+// E-invoice XML is named after the invoice with the format in the extension, e.g. RE-2025-0892.ubl.xml
+export function getEInvoiceFileName(
+  invoice: Invoice,
+  format: 'ubl' | 'xrechnung',
+  usedNames: Set<string> = new Set()
+): string {
+  return getUniqueFileName(invoice.number, '', usedNames, `${format}.xml`);
+}
+
+export async function generateAllInvoicesZip(invoices: Invoice[], dunningLetters: DunningLetter[] = []): Promise<Blob> {
   const zip = new JSZip();
   const invoicesFolder = zip.folder('invoices');
+  const usedNames = new Set<string>();
 
   for (const invoice of invoices) {
     const pdfBlob = generateInvoicePDF(invoice);
-    const fileName = `${invoice.number.replace(/[^a-zA-Z0-9-]/g, '_')}.pdf`;
+    const fileName = getInvoiceFileName(invoice, usedNames);
     invoicesFolder?.file(fileName, pdfBlob);
   }
 
+  for (const letter of dunningLetters) {
+    invoicesFolder?.file(getDunningLetterFileName(letter, usedNames), generateDunningLetterPDF(letter));
+  }
+
   return await zip.generateAsync({ type: 'blob' });
 }
 
@@ -253,8 +497,9 @@ export function downloadBlob(blob: Blob, filename: string): void {
   URL.revokeObjectURL(url);
 }
 
-export function downloadCSV(csvContent: string, filename: string): void {
-  const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' });
+export function downloadCSV(csvContent: string, filename: string, encoding: CsvEncoding = 'utf-8'): void {
+  const charset = encoding === 'windows-1252' ? 'windows-1252' : 'utf-8';
+  const blob = new Blob([encodeCsv(csvContent, encoding)], { type: `text/csv;charset=${charset};` });
   downloadBlob(blob, filename);
 }
 
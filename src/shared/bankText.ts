@@ -0,0 +1,133 @@
+import { faker } from '@faker-js/faker';
+import { BankTextProfile, BankTransaction, NoiseCategory } from './types';
+import { transliterate } from './charset';
+
+// Kind of booking, which decides how a bank words the transaction
+export type BookingKind = 'transfer' | 'card' | 'fee';
+
+// What a booking is for: a payment to or from an invoice party, or the category of unrelated activity
+export type BookingCategory = 'supplier_payment' | 'customer_payment' | NoiseCategory;
+
+// Counterparties that may collect from us by direct debit; salary, rent and internal transfers we always send
+const DIRECT_DEBIT_CATEGORIES: BookingCategory[] = ['supplier_payment', 'tax_office'];
+
+// SEPA remittance information is limited to 140 characters
+const MAX_REMITTANCE_LENGTH = 140;
+
+// SEPA names are limited to 70 characters
+const MAX_NAME_LENGTH = 70;
+
+function truncate(value: string, length: number): string {
+  return value.length > length ? value.slice(0, length) : value;
+}
+
+function endToEndId(): string {
+  return faker.datatype.boolean()
+    ? 'NOTPROVIDED'
+    : faker.string.alphanumeric({ length: { min: 12, max: 35 }, casing: 'upper' });
+}
+
+function mandateId(): string {
+  return `M${faker.string.numeric(8)}`;
+}
+
+function creditorId(countryCode: string, digits: number): string {
+  return `${countryCode}${faker.string.numeric(2)}ZZZ${faker.string.numeric(digits)}`;
+}
+
+// dd-MM-yyyy from an ISO date
+function formatDutchDate(date: string): string {
+  const [year, month, day] = date.split('-');
+  return `${day}-${month}-${year}`;
+}
+
+function applySparkasse(transaction: BankTransaction, kind: BookingKind, category: BookingCategory): void {
+  const remittance = truncate(transliterate(transaction.description), MAX_REMITTANCE_LENGTH);
+  transaction.counterparty = truncate(transliterate(transaction.counterparty), MAX_NAME_LENGTH);
+
+  if (kind === 'card') {
+    transaction.description = `KARTENZAHLUNG ${remittance} ${transaction.value_date} Debitk.${faker.number.int({ min: 1, max: 9 })}`;
+    return;
+  }
+  if (kind === 'fee') {
+    transaction.description = `ENTGELTABSCHLUSS ${remittance}`;
+    return;
+  }
+
+  const eref = `EREF+ ${endToEndId()}`;
+  if (transaction.amount_eur > 0) {
+    transaction.description = `SEPA-GUTSCHRIFT ${eref} SVWZ+ ${remittance}`;
+  } else if (DIRECT_DEBIT_CATEGORIES.includes(category) && faker.number.float() < 0.25) {
+    // Some suppliers and the tax office collect by direct debit
+    transaction.description = `SEPA-LASTSCHRIFT ${eref} MREF+ ${mandateId()} CRED+ ${creditorId('DE', 11)} SVWZ+ ${remittance}`;
+  } else if (faker.number.float() < 0.2) {
+    // Payments from a collective order carry our customer reference
+    transaction.description = `SEPA-UEBERWEISUNG ${eref} KREF+ ${faker.string.alphanumeric({ length: 16, casing: 'upper' })} SVWZ+ ${remittance}`;
+  } else {
+    transaction.description = `SEPA-UEBERWEISUNG ${eref} SVWZ+ ${remittance}`;
+  }
+}
+
+function applyIngNl(transaction: BankTransaction, kind: BookingKind, category: BookingCategory): void {
+  const remittance = truncate(transaction.description, MAX_REMITTANCE_LENGTH);
+  const valueDate = `Valutadatum: ${formatDutchDate(transaction.value_date)}`;
+  transaction.counterparty = truncate(transaction.counterparty, MAX_NAME_LENGTH);
+
+  if (kind === 'card') {
+    const time = `${faker.number.int({ min: 7, max: 22 }).toString().padStart(2, '0')}:${faker.string.numeric(2)}`;
+    transaction.description = `Pasvolgnr: 00${faker.number.int({ min: 1, max: 9 })} ${formatDutchDate(transaction.value_date)} ${time} Transactie: ${faker.string.alphanumeric({ length: 8, casing: 'upper' })} Term: ${faker.string.alphanumeric({ length: 8, casing: 'upper' })} ${remittance} ${valueDate}`;
+    return;
+  }
+  if (kind === 'fee') {
+    transaction.description = `Kosten ${remittance} ${valueDate}`;
+    return;
+  }
+
+  const parts = [`Naam: ${transaction.counterparty}`, `Omschrijving: ${remittance}`];
+  if (transaction.counterparty_iban) {
+    parts.push(`IBAN: ${transaction.counterparty_iban}`);
+  }
+  parts.push(`Kenmerk: ${endToEndId()}`);
+  if (transaction.amount_eur < 0 && DIRECT_DEBIT_CATEGORIES.includes(category) && faker.number.float() < 0.25) {
+    // Incasso (direct debit) collected by the supplier or the tax office
+    parts.push(`Machtiging ID: ${mandateId()}`, `Incassant ID: ${creditorId('NL', 12)}`, 'Doorlopende incasso');
+  }
+  parts.push(valueDate);
+  transaction.description = parts.join(' ');
+}
+
+function applyNeobank(transaction: BankTransaction, kind: BookingKind): void {
+  const remittance = truncate(transaction.description.replace(/\s+/g, ' ').trim(), MAX_REMITTANCE_LENGTH);
+
+  if (kind === 'card') {
+    // The merchant becomes the counterparty, the card scheme disappears
+    transaction.counterparty = remittance;
+    transaction.description = 'Card payment';
+    return;
+  }
+
+  transaction.counterparty = truncate(transaction.counterparty.replace(/\s+/g, ' ').trim(), MAX_NAME_LENGTH);
+  transaction.description = remittance;
+}
+
+// Rewrite description and counterparty the way the given bank type exports them
+export function applyBankTextProfile(
+  transaction: BankTransaction,
+  profile: BankTextProfile,
+  kind: BookingKind,
+  category: BookingCategory
+): void {
+  switch (profile) {
+    case 'plain':
+      return;
+    case 'sparkasse':
+      applySparkasse(transaction, kind, category);
+      return;
+    case 'ing_nl':
+      applyIngNl(transaction, kind, category);
+      return;
+    case 'neobank':
+      applyNeobank(transaction, kind);
+      return;
+  }
+}
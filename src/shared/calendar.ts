@@ -0,0 +1,127 @@
+import { faker } from '@faker-js/faker';
+import { BankTransaction } from './types';
+import type { BookingKind } from './bankText';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Easter Sunday in the Gregorian calendar (anonymous Gregorian algorithm)
+function easterSunday(year: number): number {
+  const a = year % 19;
+  const b = Math.floor(year / 100);
+  const c = year % 100;
+  const d = Math.floor(b / 4);
+  const e = b % 4;
+  const f = Math.floor((b + 8) / 25);
+  const g = Math.floor((b - f + 1) / 3);
+  const h = (19 * a + b - d - g + 15) % 30;
+  const i = Math.floor(c / 4);
+  const k = c % 4;
+  const l = (32 + 2 * e + 2 * i - h - k) % 7;
+  const m = Math.floor((a + 11 * h + 22 * l) / 451);
+  const month = Math.floor((h + l - 7 * m + 114) / 31);
+  const day = ((h + l - 7 * m + 114) % 31) + 1;
+  return Date.UTC(year, month - 1, day);
+}
+
+function isoDate(time: number): string {
+  return new Date(time).toISOString().split('T')[0];
+}
+
+// Holidays of one year as ISO dates, given fixed dates (month, day) and offsets from Easter Sunday
+function holidays(year: number, fixed: [number, number][], easterOffsets: number[]): string[] {
+  const easter = easterSunday(year);
+  return [
+    ...fixed.map(([month, day]) => isoDate(Date.UTC(year, month - 1, day))),
+    ...easterOffsets.map((offset) => isoDate(easter + offset * DAY_MS)),
+  ];
+}
+
+// TARGET2 closing days: New Year, Good Friday, Easter Monday, Labour Day, Christmas Day and Boxing Day
+function target2Holidays(year: number): string[] {
+  return holidays(year, [[1, 1], [5, 1], [12, 25], [12, 26]], [-2, 1]);
+}
+
+// Selected nationwide bank holidays on top of TARGET2; countries not listed follow TARGET2 only
+const NATIONAL_HOLIDAYS: Record<string, (year: number) => string[]> = {
+  // Ascension Day, Whit Monday, Day of German Unity
+  DE: (year) => holidays(year, [[10, 3]], [39, 50]),
+  // King's Day (moved to the Saturday before when on a Sunday), Ascension Day, Whit Monday
+  NL: (year) => {
+    const kingsDay = new Date(Date.UTC(year, 3, 27)).getUTCDay() === 0 ? 26 : 27;
+    return holidays(year, [[4, kingsDay]], [39, 50]);
+  },
+  // Epiphany, Assumption, National Day, All Saints, Immaculate Conception, Ascension, Whit Monday, Corpus Christi
+  AT: (year) => holidays(year, [[1, 6], [8, 15], [10, 26], [11, 1], [12, 8]], [39, 50, 60]),
+  // Victory in Europe Day, Bastille Day, Assumption, All Saints, Armistice Day, Ascension Day, Whit Monday
+  FR: (year) => holidays(year, [[5, 8], [7, 14], [8, 15], [11, 1], [11, 11]], [39, 50]),
+  // National Day, Assumption, All Saints, Armistice Day, Ascension Day, Whit Monday
+  BE: (year) => holidays(year, [[7, 21], [8, 15], [11, 1], [11, 11]], [39, 50]),
+};
+
+const holidayCache = new Map<string, Set<string>>();
+
+function getBankHolidays(year: number, countryCode: string): Set<string> {
+  const key = `${countryCode}:${year}`;
+  let result = holidayCache.get(key);
+  if (!result) {
+    result = new Set([...target2Holidays(year), ...(NATIONAL_HOLIDAYS[countryCode]?.(year) ?? [])]);
+    holidayCache.set(key, result);
+  }
+  return result;
+}
+
+// Whether banks in the country book on this ISO date (no weekend, TARGET2 or national holiday)
+export function isBankBusinessDay(date: string, countryCode: string): boolean {
+  const day = new Date(date);
+  const weekday = day.getUTCDay();
+  if (weekday === 0 || weekday === 6) {
+    return false;
+  }
+  return !getBankHolidays(day.getUTCFullYear(), countryCode).has(date);
+}
+
+// The ISO date itself when it is a business day, otherwise the next business day
+export function rollToBankBusinessDay(date: string, countryCode: string): string {
+  let time = new Date(date).getTime();
+  while (!isBankBusinessDay(isoDate(time), countryCode)) {
+    time += DAY_MS;
+  }
+  return isoDate(time);
+}
+
+// Move an ISO date forward by a number of business days
+export function addBankBusinessDays(date: string, days: number, countryCode: string): string {
+  let result = rollToBankBusinessDay(date, countryCode);
+  for (let i = 0; i < days; i++) {
+    result = rollToBankBusinessDay(isoDate(new Date(result).getTime() + DAY_MS), countryCode);
+  }
+  return result;
+}
+
+// Turn the date a payment was made into the booking date and value date our bank reports.
+// Transfers are valued on the payment date, rolled to the next business day when banks are closed,
+// and sometimes booked one business day later;
+// card payments keep the day the card was used as value date and are booked 1-3 business days later;
+// fees are booked and valued on the same business day.
+export function applyBankingCalendar(transaction: BankTransaction, kind: BookingKind, countryCode: string): void {
+  const paymentDate = transaction.date;
+
+  switch (kind) {
+    case 'transfer': {
+      const valueDate = rollToBankBusinessDay(paymentDate, countryCode);
+      transaction.value_date = valueDate;
+      transaction.date = faker.number.float() < 0.2 ? addBankBusinessDays(valueDate, 1, countryCode) : valueDate;
+      return;
+    }
+    case 'card': {
+      transaction.value_date = paymentDate;
+      const nextBusinessDay = rollToBankBusinessDay(isoDate(new Date(paymentDate).getTime() + DAY_MS), countryCode);
+      transaction.date = addBankBusinessDays(nextBusinessDay, faker.number.int({ min: 0, max: 2 }), countryCode);
+      return;
+    }
+    case 'fee':
+      transaction.date = rollToBankBusinessDay(paymentDate, countryCode);
+      transaction.value_date = transaction.date;
+      return;
+  }
+}
@@ -0,0 +1,179 @@
+import { GeneratedTestSuite } from './types';
+import {
+  StatementRow,
+  getEndToEndId,
+  getEntryReference,
+  getOpeningBalance,
+  getReferencedInvoices,
+  getSortedStatementRows,
+  getStatementAccountHolder,
+  getStatementReference,
+  sumAmounts,
+} from './statement';
+import { XmlElement, renderXmlDocument, xmlElement } from './xml';
+
+const CAMT053_NAMESPACE = 'urn:iso:std:iso:20022:tech:xsd:camt.053.001.08';
+
+// Unstructured remittance information is limited to 140 characters per line
+const MAX_USTRD_LENGTH = 140;
+
+// ISO 20022 bank transaction codes (domain, family, sub-family) per kind of booking
+function getBankTransactionCode(row: StatementRow): [string, string, string] {
+  if (row.kind === 'fee') {
+    return ['ACMT', 'MDOP', 'CHRG'];
+  }
+  if (row.kind === 'card') {
+    return ['PMNT', 'CCRD', 'POSD'];
+  }
+  return row.transaction.amount_eur >= 0 ? ['PMNT', 'RCDT', 'ESCT'] : ['PMNT', 'ICDT', 'ESCT'];
+}
+
+function amount(value: number, currency: string): XmlElement {
+  return xmlElement('Amt', Math.abs(value).toFixed(2), { Ccy: currency });
+}
+
+function creditDebit(value: number): XmlElement {
+  return xmlElement('CdtDbtInd', value >= 0 ? 'CRDT' : 'DBIT');
+}
+
+function balance(code: 'OPBD' | 'CLBD', value: number, date: string): XmlElement {
+  return xmlElement('Bal', [
+    xmlElement('Tp', [xmlElement('CdOrPrtry', [xmlElement('Cd', code)])]),
+    amount(value, 'EUR'),
+    creditDebit(value),
+    xmlElement('Dt', [xmlElement('Dt', date)]),
+  ]);
+}
+
+function splitRemittance(text: string): string[] {
+  const lines: string[] = [];
+  for (let i = 0; i < text.length; i += MAX_USTRD_LENGTH) {
+    lines.push(text.slice(i, i + MAX_USTRD_LENGTH));
+  }
+  return lines;
+}
+
+// Remittance text as the counterparty entered it, plus one structured block per invoice it quotes
+function remittanceInformation(row: StatementRow): XmlElement {
+  const structured = getReferencedInvoices(row).map((invoice) => {
+    const isCreditNote = invoice.documentType === 'credit_note';
+    return xmlElement('Strd', [
+      xmlElement('RfrdDocInf', [
+        xmlElement('Tp', [xmlElement('CdOrPrtry', [xmlElement('Cd', isCreditNote ? 'CREN' : 'CINV')])]),
+        xmlElement('Nb', invoice.number),
+        xmlElement('RltdDt', invoice.date),
+      ]),
+      xmlElement('RfrdDocAmt', [
+        xmlElement(isCreditNote ? 'CdtNoteAmt' : 'DuePyblAmt', Math.abs(invoice.total).toFixed(2), { Ccy: invoice.currency }),
+      ]),
+    ]);
+  });
+
+  return xmlElement('RmtInf', [
+    ...splitRemittance(row.transaction.description).map((line) => xmlElement('Ustrd', line)),
+    ...structured,
+  ]);
+}
+
+// The counterparty is the debtor of money we receive and the creditor of money we pay
+function relatedParties(row: StatementRow): XmlElement | undefined {
+  const { counterparty, counterparty_iban } = row.transaction;
+  if (!counterparty) {
+    return undefined;
+  }
+  const role = row.transaction.amount_eur >= 0 ? 'Dbtr' : 'Cdtr';
+  return xmlElement('RltdPties', [
+    xmlElement(role, [xmlElement('Pty', [xmlElement('Nm', counterparty)])]),
+    counterparty_iban ? xmlElement(`${role}Acct`, [xmlElement('Id', [xmlElement('IBAN', counterparty_iban)])]) : undefined,
+  ]);
+}
+
+function entry(row: StatementRow, index: number, servicerReference: string): XmlElement {
+  const { transaction } = row;
+  const [domain, family, subFamily] = getBankTransactionCode(row);
+  const bankTransactionCode = xmlElement('BkTxCd', [
+    xmlElement('Domn', [
+      xmlElement('Cd', domain),
+      xmlElement('Fmly', [xmlElement('Cd', family), xmlElement('SubFmlyCd', subFamily)]),
+    ]),
+  ]);
+  const endToEndId = getEndToEndId(row) ?? 'NOTPROVIDED';
+
+  return xmlElement('Ntry', [
+    xmlElement('NtryRef', index + 1),
+    amount(transaction.amount_eur, 'EUR'),
+    creditDebit(transaction.amount_eur),
+    xmlElement('Sts', [xmlElement('Cd', 'BOOK')]),
+    xmlElement('BookgDt', [xmlElement('Dt', transaction.date)]),
+    xmlElement('ValDt', [xmlElement('Dt', transaction.value_date)]),
+    xmlElement('AcctSvcrRef', servicerReference),
+    bankTransactionCode,
+    xmlElement('NtryDtls', [
+      xmlElement('TxDtls', [
+        xmlElement('Refs', [xmlElement('AcctSvcrRef', servicerReference), xmlElement('EndToEndId', endToEndId)]),
+        amount(transaction.amount_eur, 'EUR'),
+        creditDebit(transaction.amount_eur),
+        relatedParties(row),
+        remittanceInformation(row),
+      ]),
+    ]),
+  ]);
+}
+
+// Write a suite's statement rows as an ISO 20022 camt.053.001.08 bank-to-customer statement
+export function generateCamt053(suite: GeneratedTestSuite): string {
+  const accountHolder = getStatementAccountHolder(suite);
+  const rows = getSortedStatementRows(suite);
+  const amounts = rows.map((row) => row.transaction.amount_eur);
+  const credits = amounts.filter((value) => value >= 0);
+  const debits = amounts.filter((value) => value < 0);
+
+  const openingBalance = getOpeningBalance(rows);
+  const closingBalance = sumAmounts([openingBalance, ...amounts]);
+  const fromDate = rows[0]?.transaction.date ?? suite.createdAt.slice(0, 10);
+  const toDate = rows[rows.length - 1]?.transaction.date ?? fromDate;
+  const reference = getStatementReference(suite);
+
+  const statement = xmlElement('Stmt', [
+    xmlElement('Id', `STMT-${reference}`),
+    xmlElement('ElctrncSeqNb', 1),
+    xmlElement('CreDtTm', suite.createdAt),
+    xmlElement('FrToDt', [xmlElement('FrDtTm', `${fromDate}T00:00:00`), xmlElement('ToDtTm', `${toDate}T23:59:59`)]),
+    xmlElement('Acct', [
+      xmlElement('Id', [xmlElement('IBAN', accountHolder.iban)]),
+      xmlElement('Ccy', 'EUR'),
+      xmlElement('Ownr', [xmlElement('Nm', accountHolder.name)]),
+      xmlElement('Svcr', [xmlElement('FinInstnId', [xmlElement('Nm', accountHolder.bankName)])]),
+    ]),
+    balance('OPBD', openingBalance, fromDate),
+    balance('CLBD', closingBalance, toDate),
+    xmlElement('TxsSummry', [
+      xmlElement('TtlNtries', [
+        xmlElement('NbOfNtries', rows.length),
+        xmlElement('Sum', sumAmounts(amounts.map(Math.abs)).toFixed(2)),
+        xmlElement('TtlNetNtry', [
+          xmlElement('Amt', Math.abs(sumAmounts(amounts)).toFixed(2)),
+          creditDebit(sumAmounts(amounts)),
+        ]),
+      ]),
+      xmlElement('TtlCdtNtries', [
+        xmlElement('NbOfNtries', credits.length),
+        xmlElement('Sum', sumAmounts(credits).toFixed(2)),
+      ]),
+      xmlElement('TtlDbtNtries', [
+        xmlElement('NbOfNtries', debits.length),
+        xmlElement('Sum', Math.abs(sumAmounts(debits)).toFixed(2)),
+      ]),
+    ]),
+    ...rows.map((row, index) => entry(row, index, getEntryReference(reference, index))),
+  ]);
+
+  return renderXmlDocument(
+    xmlElement('Document', [
+      xmlElement('BkToCstmrStmt', [
+        xmlElement('GrpHdr', [xmlElement('MsgId', `MSG-${reference}`), xmlElement('CreDtTm', suite.createdAt)]),
+        statement,
+      ]),
+    ], { xmlns: CAMT053_NAMESPACE })
+  );
+}
@@ -0,0 +1,9 @@
+// German banks transliterate to the SEPA character set
+const SEPA_TRANSLITERATIONS: Record<string, string> = {
+  ä: 'ae', ö: 'oe', ü: 'ue', Ä: 'AE', Ö: 'OE', Ü: 'UE', ß: 'ss',
+  é: 'e', è: 'e', ê: 'e', á: 'a', à: 'a', â: 'a', ó: 'o', ò: 'o', ô: 'o', í: 'i', ç: 'c', ñ: 'n',
+};
+
+export function transliterate(value: string): string {
+  return [...value].map((char) => SEPA_TRANSLITERATIONS[char] ?? char).join('');
+}
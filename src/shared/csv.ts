@@ -0,0 +1,128 @@
+import {
+  BankTransaction,
+  CSV_DIALECT_PRESETS,
+  CsvDateFormat,
+  CsvDialect,
+  CsvDialectPreset,
+  CsvEncoding,
+  CsvField,
+} from './types';
+
+export const CSV_FIELDS: CsvField[] = [
+  'date',
+  'value_date',
+  'counterparty',
+  'counterparty_iban',
+  'description',
+  'amount',
+  'debit',
+  'credit',
+];
+
+export const CSV_DATE_FORMATS: CsvDateFormat[] = ['yyyy-MM-dd', 'dd.MM.yyyy', 'dd-MM-yyyy'];
+
+export const CSV_ENCODINGS: CsvEncoding[] = ['utf-8', 'utf-8-bom', 'windows-1252'];
+
+// Windows-1252 characters in 0x80-0x9F, where it differs from Latin-1; everything else it shares with Unicode
+const WINDOWS_1252_EXTRAS: Record<string, number> = {
+  '€': 0x80, '‚': 0x82, 'ƒ': 0x83, '„': 0x84, '…': 0x85, '†': 0x86, '‡': 0x87, 'ˆ': 0x88, '‰': 0x89, 'Š': 0x8a,
+  '‹': 0x8b, 'Œ': 0x8c, 'Ž': 0x8e, '‘': 0x91, '’': 0x92, '“': 0x93, '”': 0x94, '•': 0x95, '–': 0x96, '—': 0x97,
+  '˜': 0x98, '™': 0x99, 'š': 0x9a, '›': 0x9b, 'œ': 0x9c, 'ž': 0x9e, 'Ÿ': 0x9f,
+};
+
+// Dialect of a preset name, or of settings applied over the default dialect
+export function resolveCsvDialect(dialect: CsvDialectPreset | Partial<CsvDialect> = 'default'): CsvDialect {
+  if (typeof dialect === 'string') {
+    return CSV_DIALECT_PRESETS[dialect].dialect;
+  }
+  return { ...CSV_DIALECT_PRESETS.default.dialect, ...dialect };
+}
+
+function formatField(value: string, dialect: CsvDialect): string {
+  const needsQuotes =
+    dialect.quoting === 'all' ||
+    value.includes(dialect.delimiter) ||
+    value.includes('"') ||
+    /[\r\n]/.test(value) ||
+    (dialect.escaping === 'backslash' && value.includes('\\'));
+  if (!needsQuotes) {
+    return value;
+  }
+  const escaped = dialect.escaping === 'double' ? value.replace(/"/g, '""') : value.replace(/[\\"]/g, '\\$&');
+  return `"${escaped}"`;
+}
+
+// One CSV line; fields are quoted and escaped as the dialect requires
+export function formatCsvRow(values: (string | number)[], dialect: CsvDialect = CSV_DIALECT_PRESETS.default.dialect): string {
+  return values.map((value) => formatField(String(value), dialect)).join(dialect.delimiter);
+}
+
+function formatDate(date: string, format: CsvDateFormat): string {
+  const [year, month, day] = date.split('-');
+  switch (format) {
+    case 'yyyy-MM-dd':
+      return date;
+    case 'dd.MM.yyyy':
+      return `${day}.${month}.${year}`;
+    case 'dd-MM-yyyy':
+      return `${day}-${month}-${year}`;
+  }
+}
+
+function formatAmount(amount: number, dialect: CsvDialect): string {
+  return amount.toFixed(2).replace('.', dialect.decimalSeparator);
+}
+
+function fieldValue(transaction: BankTransaction, field: CsvField, dialect: CsvDialect): string {
+  switch (field) {
+    case 'date':
+      return formatDate(transaction.date, dialect.dateFormat);
+    case 'value_date':
+      return formatDate(transaction.value_date, dialect.dateFormat);
+    case 'counterparty':
+      return transaction.counterparty;
+    case 'counterparty_iban':
+      return transaction.counterparty_iban;
+    case 'description':
+      return transaction.description;
+    case 'amount':
+      return formatAmount(transaction.amount_eur, dialect);
+    case 'debit':
+      return transaction.amount_eur < 0 ? formatAmount(-transaction.amount_eur, dialect) : '';
+    case 'credit':
+      return transaction.amount_eur >= 0 ? formatAmount(transaction.amount_eur, dialect) : '';
+  }
+}
+
+// Bank transactions CSV in booking order, written in the given dialect
+export function generateBankTransactionsCsv(transactions: BankTransaction[], dialect: CsvDialect): string {
+  const sorted = [...transactions].sort((a, b) => a.date.localeCompare(b.date));
+  const header = formatCsvRow(
+    dialect.columns.map((column) => column.header),
+    dialect
+  );
+  const rows = sorted.map((transaction) =>
+    formatCsvRow(
+      dialect.columns.map((column) => fieldValue(transaction, column.field, dialect)),
+      dialect
+    )
+  );
+  return [header, ...rows].join('\n');
+}
+
+// Bytes of a CSV file in the given encoding; characters Windows-1252 cannot represent become '?'
+export function encodeCsv(content: string, encoding: CsvEncoding): Uint8Array<ArrayBuffer> {
+  if (encoding !== 'windows-1252') {
+    return new TextEncoder().encode(encoding === 'utf-8-bom' ? `\uFEFF${content}` : content);
+  }
+  const bytes: number[] = [];
+  for (const char of content) {
+    const codePoint = char.codePointAt(0) ?? 0x3f;
+    if (codePoint < 0x80 || (codePoint >= 0xa0 && codePoint <= 0xff)) {
+      bytes.push(codePoint);
+    } else {
+      bytes.push(WINDOWS_1252_EXTRAS[char] ?? 0x3f);
+    }
+  }
+  return new Uint8Array(bytes);
+}
@@ -0,0 +1,103 @@
+// Currencies that foreign-currency invoices can be issued in
+export const FOREIGN_CURRENCIES = ['USD', 'GBP', 'CHF', 'SEK', 'NOK', 'PLN'] as const;
+
+export type ForeignCurrency = (typeof FOREIGN_CURRENCIES)[number];
+
+// How amounts are written on invoices (symbols limited to what the standard PDF fonts can render)
+const CURRENCY_FORMATS: Record<string, { symbol: string; position: 'before' | 'after' }> = {
+  EUR: { symbol: '€', position: 'before' },
+  USD: { symbol: '$', position: 'before' },
+  GBP: { symbol: '£', position: 'before' },
+  CHF: { symbol: 'CHF ', position: 'before' },
+  SEK: { symbol: ' kr', position: 'after' },
+  NOK: { symbol: ' kr', position: 'after' },
+  PLN: { symbol: ' PLN', position: 'after' },
+};
+
+// Monthly average reference rates (units of currency per 1 EUR), Jan 2024 - Dec 2025.
+// Approximates the ECB reference rates; daily rates are interpolated between month midpoints. Dates outside
+// the table are mirrored back into it (Jan 2026 takes Dec 2025, Feb 2026 Nov 2025, ...), so rates keep the
+// month-to-month moves of real data instead of freezing at the last month.
+const RATE_TABLE_START = { year: 2024, month: 0 };
+const MONTHLY_RATES: Record<ForeignCurrency, number[]> = {
+  USD: [
+    1.0905, 1.0795, 1.0872, 1.0728, 1.0812, 1.0759, 1.0844, 1.1012, 1.1106, 1.0904, 1.0630, 1.0479,
+    1.0354, 1.0413, 1.0807, 1.1214, 1.1278, 1.1516, 1.1677, 1.1631, 1.1732, 1.1636, 1.1560, 1.1700,
+  ],
+  GBP: [
+    0.8600, 0.8551, 0.8556, 0.8566, 0.8570, 0.8462, 0.8435, 0.8530, 0.8399, 0.8345, 0.8316, 0.8267,
+    0.8354, 0.8295, 0.8357, 0.8553, 0.8453, 0.8517, 0.8656, 0.8653, 0.8683, 0.8717, 0.8790, 0.8760,
+  ],
+  CHF: [
+    0.9314, 0.9480, 0.9696, 0.9785, 0.9807, 0.9624, 0.9661, 0.9486, 0.9427, 0.9389, 0.9327, 0.9349,
+    0.9410, 0.9420, 0.9532, 0.9357, 0.9331, 0.9388, 0.9330, 0.9374, 0.9335, 0.9290, 0.9290, 0.9330,
+  ],
+  SEK: [
+    11.3070, 11.2423, 11.3069, 11.6166, 11.5996, 11.3125, 11.5063, 11.4839, 11.3663, 11.4432, 11.6343, 11.5175,
+    11.4836, 11.2510, 10.9890, 11.0111, 10.9200, 11.0321, 11.1920, 11.1480, 11.0030, 10.9660, 10.9900, 10.9000,
+  ],
+  NOK: [
+    11.4073, 11.3789, 11.4751, 11.7262, 11.6590, 11.4509, 11.7252, 11.8185, 11.7544, 11.8659, 11.7613, 11.8063,
+    11.7428, 11.6688, 11.6076, 11.9800, 11.6170, 11.5620, 11.8400, 11.8540, 11.6900, 11.7200, 11.7100, 11.7800,
+  ],
+  PLN: [
+    4.3786, 4.3240, 4.2995, 4.3086, 4.2943, 4.3186, 4.2767, 4.2892, 4.2778, 4.3112, 4.3371, 4.2700,
+    4.2214, 4.1638, 4.1830, 4.2690, 4.2530, 4.2640, 4.2560, 4.2640, 4.2660, 4.2450, 4.2350, 4.2200,
+  ],
+};
+
+// Maximum relative day-to-day deviation from the interpolated monthly curve
+const DAILY_DEVIATION = 0.003;
+
+// Deterministic value in [-1, 1) for a currency and date (FNV-1a), so rates never depend on the seed
+function dailyNoise(currency: string, date: string): number {
+  let hash = 0x811c9dc5;
+  for (const char of `${currency}:${date}`) {
+    hash ^= char.charCodeAt(0);
+    hash = Math.imul(hash, 0x01000193) >>> 0;
+  }
+  return (hash / 0x100000000) * 2 - 1;
+}
+
+// Position on the monthly curve of a month position outside the table, reflected at both ends
+function mirrorIntoTable(position: number, lastIndex: number): number {
+  const period = 2 * lastIndex;
+  const wrapped = ((position % period) + period) % period;
+  return wrapped <= lastIndex ? wrapped : period - wrapped;
+}
+
+// Daily reference rate (units of currency per 1 EUR) for an ISO date; dates outside the table are mirrored
+export function getExchangeRate(currency: string, date: string): number {
+  if (currency === 'EUR') {
+    return 1;
+  }
+
+  const rates = MONTHLY_RATES[currency as ForeignCurrency];
+  if (!rates) {
+    throw new Error(`No exchange rates available for ${currency}`);
+  }
+
+  const day = new Date(date);
+  const daysInMonth = new Date(Date.UTC(day.getUTCFullYear(), day.getUTCMonth() + 1, 0)).getUTCDate();
+  // Month index measured from the middle of the first table month
+  const position =
+    (day.getUTCFullYear() - RATE_TABLE_START.year) * 12 +
+    (day.getUTCMonth() - RATE_TABLE_START.month) +
+    (day.getUTCDate() - 15) / daysInMonth;
+  const mirrored = mirrorIntoTable(position, rates.length - 1);
+  const lower = Math.floor(mirrored);
+  const upper = Math.min(lower + 1, rates.length - 1);
+  const interpolated = rates[lower] + (rates[upper] - rates[lower]) * (mirrored - lower);
+
+  return parseFloat((interpolated * (1 + dailyNoise(currency, date) * DAILY_DEVIATION)).toFixed(4));
+}
+
+// Format an amount with its currency symbol; the sign goes in front (credit notes are negative)
+export function formatMoney(value: number, currency: string): string {
+  const format = CURRENCY_FORMATS[currency] ?? { symbol: ` ${currency}`, position: 'after' };
+  const sign = value < 0 ? '-' : '';
+  const amount = Math.abs(value).toFixed(2);
+  return format.position === 'before'
+    ? `${sign}${format.symbol}${amount}`
+    : `${sign}${amount}${format.symbol}`;
+}
@@ -0,0 +1,63 @@
+import { faker } from '@faker-js/faker';
+
+// German base rate (Basiszinssatz, § 247 BGB) by the date it took effect; it is reset on 1 January and 1 July
+const BASE_RATES: { from: string; rate: number }[] = [
+  { from: '2023-01-01', rate: 1.62 },
+  { from: '2023-07-01', rate: 3.12 },
+  { from: '2024-01-01', rate: 3.62 },
+  { from: '2024-07-01', rate: 3.37 },
+  { from: '2025-01-01', rate: 2.27 },
+  { from: '2025-07-01', rate: 1.27 },
+  { from: '2026-01-01', rate: 1.27 },
+];
+
+// Last day the table covers; extend it with each half-year's rate as the Bundesbank publishes it
+const BASE_RATES_PUBLISHED_UNTIL = '2026-06-30';
+
+// Default interest between businesses is the base rate plus 9 percentage points (§ 288(2) BGB)
+const B2B_INTEREST_MARGIN = 9;
+
+// Flat compensation a business creditor may claim for a late payment (§ 288(5) BGB, Art. 6 Directive 2011/7/EU)
+const FLAT_COMPENSATION = 40;
+
+// Fees suppliers charge per reminder
+const DUNNING_FEES = [2.5, 5, 7.5, 10, 15];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Whether the base rate of an ISO date is in the table, rather than carried forward from its last entry
+export function isBaseRatePublished(date: string): boolean {
+  return date <= BASE_RATES_PUBLISHED_UNTIL;
+}
+
+// Base rate in effect on an ISO date; dates before or after the table use its first or last rate
+export function getBaseRate(date: string): number {
+  let rate = BASE_RATES[0].rate;
+  for (const entry of BASE_RATES) {
+    if (entry.from <= date) {
+      rate = entry.rate;
+    }
+  }
+  return rate;
+}
+
+// Default interest between businesses on an amount overdue since the due date, for every day until the given date
+export function calculateDefaultInterest(
+  amount: number,
+  dueDate: string,
+  untilDate: string
+): { daysOverdue: number; baseRate: number; interestRate: number; interestAmount: number } {
+  const daysOverdue = Math.max(0, Math.round((new Date(untilDate).getTime() - new Date(dueDate).getTime()) / DAY_MS));
+  const baseRate = getBaseRate(dueDate);
+  const interestRate = parseFloat((baseRate + B2B_INTEREST_MARGIN).toFixed(2));
+  const interestAmount = parseFloat(((amount * interestRate * daysOverdue) / 100 / 365).toFixed(2));
+  return { daysOverdue, baseRate, interestRate, interestAmount };
+}
+
+// Charges a supplier adds for chasing a late payment: a dunning fee and, about half the time, the flat compensation
+export function pickDunningCharges(): { dunningFee: number; flatCompensation: number } {
+  return {
+    dunningFee: faker.helpers.arrayElement(DUNNING_FEES),
+    flatCompensation: faker.datatype.boolean() ? FLAT_COMPENSATION : 0,
+  };
+}
@@ -0,0 +1,94 @@
+import { existsSync, readdirSync, readFileSync } from 'node:fs';
+import { describe, expect, it } from 'vitest';
+import { XMLFileInfo, memoryPages, validateXML } from 'xmllint-wasm';
+import { generateXRechnungXml } from './facturx';
+import { generateTestSuite } from './generator';
+import { Invoice, RECEIVABLES_ONLY_TYPES, TEST_CASE_CONFIGS, TestCaseConfig, TestCaseType, TransactionDirection } from './types';
+import { generatePeppolUbl } from './ubl';
+
+// Factur-X 1.07.3 EN16931 schema: CII D16B restricted to EN 16931, the syntax XRechnung CII is written in
+const CII_SCHEMA_DIR = new URL('../../schemas/cii/', import.meta.url);
+const CII_SCHEMA = 'Factur-X_1.07.3_EN16931.xsd';
+
+// The maindoc and common folders of the OASIS UBL 2.1 distribution's xsd folder
+const UBL_SCHEMA_DIR = new URL('../../schemas/ubl-2.1/', import.meta.url);
+const UBL_INVOICE_SCHEMA = 'maindoc/UBL-Invoice-2.1.xsd';
+const UBL_CREDIT_NOTE_SCHEMA = 'maindoc/UBL-CreditNote-2.1.xsd';
+
+// Every invoice and credit note of suites with all test case types, in both directions
+function generateInvoices(): Invoice[] {
+  const invoices: Invoice[] = [];
+  for (const direction of ['payables', 'receivables'] as TransactionDirection[]) {
+    const configs = (Object.keys(TEST_CASE_CONFIGS) as TestCaseType[])
+      .filter((type) => direction === 'receivables' || !RECEIVABLES_ONLY_TYPES.includes(type))
+      .map((type): TestCaseConfig => ({ type, ...TEST_CASE_CONFIGS[type], quantity: 3 }));
+    const suite = generateTestSuite(configs, direction, { start: '2025-03-01', end: '2025-06-01' }, undefined, {
+      seed: 1,
+    });
+    for (const testCase of suite.cases) {
+      invoices.push(...(testCase.invoices ?? [testCase.invoice]));
+    }
+  }
+  return invoices;
+}
+
+// All schema files below a folder, named by their path in it so that their imports resolve
+function readSchemas(dir: URL): XMLFileInfo[] {
+  return readdirSync(dir, { recursive: true, encoding: 'utf8' })
+    .filter((fileName) => fileName.endsWith('.xsd'))
+    .map((fileName) => ({ fileName, contents: readFileSync(new URL(fileName, dir), 'utf8') }));
+}
+
+// Schema errors of the documents, one "file:line: message" entry each
+async function validate(documents: XMLFileInfo[], schemas: XMLFileInfo[], schemaFileName: string): Promise<string[]> {
+  const schema = schemas.find((file) => file.fileName === schemaFileName);
+  if (!schema) {
+    throw new Error(`Schema ${schemaFileName} not found`);
+  }
+  const result = await validateXML({
+    xml: documents,
+    schema,
+    preload: schemas.filter((file) => file !== schema),
+    maxMemoryPages: 256 * memoryPages.MiB,
+  });
+  return result.errors.map((error) => error.rawMessage);
+}
+
+describe('e-invoice XML', () => {
+  const invoices = generateInvoices();
+
+  it('covers invoices and credit notes', () => {
+    expect(invoices.some((invoice) => invoice.documentType === 'invoice')).toBe(true);
+    expect(invoices.some((invoice) => invoice.documentType === 'credit_note')).toBe(true);
+  });
+
+  it('writes XRechnung CII that is valid against the CII schema', async () => {
+    const documents = invoices.map((invoice, index) => ({
+      fileName: `${index + 1}.xrechnung.xml`,
+      contents: generateXRechnungXml(invoice),
+    }));
+    expect(await validate(documents, readSchemas(CII_SCHEMA_DIR), CII_SCHEMA)).toEqual([]);
+  });
+
+  it('rejects CII that breaks the schema', async () => {
+    const contents = generateXRechnungXml(invoices[0]).replace(/<ram:TypeCode>(\d+)<\/ram:TypeCode>/, '<ram:Code>$1</ram:Code>');
+    const errors = await validate([{ fileName: 'broken.xml', contents }], readSchemas(CII_SCHEMA_DIR), CII_SCHEMA);
+    expect(errors).toHaveLength(1);
+  });
+
+  it('writes UBL that is valid against the UBL 2.1 schemas', async () => {
+    expect(existsSync(UBL_SCHEMA_DIR), 'UBL 2.1 schemas missing from schemas/ubl-2.1/').toBe(true);
+    const schemas = readSchemas(UBL_SCHEMA_DIR);
+    const documents = invoices.map((invoice, index) => ({
+      fileName: `${index + 1}.ubl.xml`,
+      contents: generatePeppolUbl(invoice),
+    }));
+    const isCreditNote = (index: number) => invoices[index].documentType === 'credit_note';
+    const invoiceDocuments = documents.filter((_, index) => !isCreditNote(index));
+    const creditNoteDocuments = documents.filter((_, index) => isCreditNote(index));
+    expect(invoiceDocuments.length).toBeGreaterThan(0);
+    expect(creditNoteDocuments.length).toBeGreaterThan(0);
+    expect(await validate(invoiceDocuments, schemas, UBL_INVOICE_SCHEMA)).toEqual([]);
+    expect(await validate(creditNoteDocuments, schemas, UBL_CREDIT_NOTE_SCHEMA)).toEqual([]);
+  });
+});
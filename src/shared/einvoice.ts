@@ -0,0 +1,53 @@
+import { Company, Invoice } from './types';
+
+// Buyer reference (BT-10) of every e-invoice. XRechnung requires one and Peppol BIS requires it or an order
+// reference; generated customers have neither a Leitweg-ID nor purchase orders.
+export const BUYER_REFERENCE = 'n/a';
+
+// Seller contact point (BT-41) that XRechnung requires next to the phone number and email address
+export const SELLER_CONTACT_NAME = 'Accounts Receivable';
+
+// UNTDID 1001 document type codes
+export const INVOICE_TYPE_CODE = '380';
+export const CREDIT_NOTE_TYPE_CODE = '381';
+
+// UNTDID 4461 payment means code for a SEPA credit transfer
+export const SEPA_CREDIT_TRANSFER = '58';
+
+// Whether an invoice is outside the scope of VAT (category O): a supplier outside the EU VAT area invoicing us.
+// Non-EU sales of ours are exports instead (category G).
+export function isOutsideVatScope(invoice: Invoice): boolean {
+  return invoice.vatTreatment === 'non_eu' && invoice.direction === 'payables';
+}
+
+// UNCL 5305 VAT category of a line or breakdown entry, with the rate to write (none for O, which has no rate)
+// and the exemption reason categories other than S need
+export function getTaxCategory(
+  invoice: Invoice,
+  rate: number
+): { code: string; rate?: number; exemptionReason?: string } {
+  if (invoice.vatTreatment === 'reverse_charge') {
+    return { code: 'AE', rate, exemptionReason: 'Reverse charge' };
+  }
+  if (isOutsideVatScope(invoice)) {
+    return { code: 'O', exemptionReason: 'Not subject to VAT' };
+  }
+  if (invoice.vatTreatment === 'non_eu') {
+    return { code: 'G', rate, exemptionReason: 'Export outside the EU' };
+  }
+  return rate > 0 ? { code: 'S', rate } : { code: 'E', rate, exemptionReason: 'Exempt from VAT' };
+}
+
+// Street, postcode and city from a "street, postcode city, country" address
+export function parseAddress(company: Company): { street: string; postcode?: string; city?: string } {
+  const [street = '', postcodeAndCity = ''] = company.address.split(', ');
+  const [, postcode, city] = /^(\S+)\s+(.*)$/.exec(postcodeAndCity) ?? [];
+  return { street, postcode, city };
+}
+
+// Amount formatter of an invoice's e-invoice XML. Credit notes are written with positive amounts, as the
+// document type already says they are credited.
+export function getAmountFormatter(invoice: Invoice): (value: number) => string {
+  const sign = invoice.total < 0 ? -1 : 1;
+  return (value: number) => (sign * value).toFixed(2);
+}
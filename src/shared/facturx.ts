@@ -0,0 +1,289 @@
+import {
+  BUYER_REFERENCE,
+  CREDIT_NOTE_TYPE_CODE,
+  INVOICE_TYPE_CODE,
+  SELLER_CONTACT_NAME,
+  SEPA_CREDIT_TRANSFER,
+  getAmountFormatter,
+  getTaxCategory,
+  isOutsideVatScope,
+  parseAddress,
+} from './einvoice';
+import { Company, FacturXEmbedding, FacturXMismatch, FacturXProfile, Invoice, PaymentTerms } from './types';
+import { XmlElement, renderXmlDocument, renderXmlElement, xmlElement } from './xml';
+
+// File name readers look for in a hybrid PDF (Factur-X 1.0, ZUGFeRD 2.1 and later)
+export const FACTUR_X_FILE_NAME = 'factur-x.xml';
+
+// Guideline (specification identifier, BT-24) of each profile
+const GUIDELINE_IDS: Record<FacturXProfile, string> = {
+  MINIMUM: 'urn:factur-x.eu:1p0:minimum',
+  BASIC: 'urn:cen.eu:en16931:2017#compliant#urn:factur-x.eu:1p0:basic',
+  EN16931: 'urn:cen.eu:en16931:2017',
+};
+
+// XRechnung 3.0 is a CIUS of EN 16931, so it builds on the EN16931 profile
+const XRECHNUNG_GUIDELINE_ID = 'urn:cen.eu:en16931:2017#compliant#urn:xeinkauf.de:kosit:xrechnung_3.0';
+
+const CII_NAMESPACES = {
+  'xmlns:rsm': 'urn:un:unece:uncefact:data:standard:CrossIndustryInvoice:100',
+  'xmlns:qdt': 'urn:un:unece:uncefact:data:standard:QualifiedDataType:100',
+  'xmlns:ram': 'urn:un:unece:uncefact:data:standard:ReusableAggregateBusinessInformationEntity:100',
+  'xmlns:udt': 'urn:un:unece:uncefact:data:standard:UnqualifiedDataType:100',
+};
+
+const FACTUR_X_XMP_NAMESPACE = 'urn:factur-x:pdfa:CrossIndustryDocument:invoice:1p0#';
+
+// Conformance level the XMP metadata declares for each profile
+const CONFORMANCE_LEVELS: Record<FacturXProfile, string> = {
+  MINIMUM: 'MINIMUM',
+  BASIC: 'BASIC',
+  EN16931: 'EN 16931',
+};
+
+// Properties of the fx: XMP schema, described in the PDF/A extension schema
+const XMP_PROPERTIES: { name: string; description: string }[] = [
+  { name: 'DocumentFileName', description: 'The name of the embedded XML document' },
+  { name: 'DocumentType', description: 'The type of the hybrid document in capital letters, e.g. INVOICE or ORDER' },
+  { name: 'Version', description: 'The actual version of the standard applying to the embedded XML document' },
+  { name: 'ConformanceLevel', description: 'The conformance level of the embedded XML document' },
+];
+
+// How a CII document is written: its profile and guideline, the Factur-X mismatch if any, and whether the
+// XRechnung business rules apply on top of the profile
+interface CiiSettings {
+  profile: FacturXProfile;
+  guidelineId: string;
+  mismatch?: FacturXMismatch;
+  xrechnung: boolean;
+}
+
+// yyyyMMdd (format 102) date element
+function dateTime(name: string, date: string): XmlElement {
+  return xmlElement(name, [xmlElement('udt:DateTimeString', date.replace(/-/g, ''), { format: '102' })]);
+}
+
+function postalAddress(company: Company): XmlElement {
+  const { street, postcode, city } = parseAddress(company);
+  return xmlElement('ram:PostalTradeAddress', [
+    postcode ? xmlElement('ram:PostcodeCode', postcode) : undefined,
+    xmlElement('ram:LineOne', street),
+    city ? xmlElement('ram:CityName', city) : undefined,
+    xmlElement('ram:CountryID', company.countryCode),
+  ]);
+}
+
+function taxRegistration(company: Company): XmlElement {
+  return xmlElement('ram:SpecifiedTaxRegistration', [xmlElement('ram:ID', company.vatId, { schemeID: 'VA' })]);
+}
+
+// Payment terms text; XRechnung puts a cash discount in front of it in the machine-readable form of BR-DE-18
+function paymentTermsDescription(terms: PaymentTerms, xrechnung: boolean): string {
+  if (!xrechnung || !terms.discountPercent || !terms.discountDays) {
+    return terms.text;
+  }
+  return `#SKONTO#TAGE=${terms.discountDays}#PROZENT=${terms.discountPercent.toFixed(2)}#\n${terms.text}`;
+}
+
+// CII XML (UN/CEFACT Cross Industry Invoice D16B) of an invoice. A mismatch replaces the visual value of its
+// field in the XML; a changed total is not spread over lines and VAT, so the totals no longer add up, as with
+// a faulty sender.
+function buildCiiXml(invoice: Invoice, settings: CiiSettings): string {
+  const { profile, mismatch, xrechnung } = settings;
+  const isCreditNote = invoice.documentType === 'credit_note';
+  const hasDetails = profile !== 'MINIMUM';
+  // Invoices outside the scope of VAT carry no VAT IDs; the seller is identified by its registration instead
+  const outsideVatScope = isOutsideVatScope(invoice);
+  const money = getAmountFormatter(invoice);
+  const xmlValue = (field: string, visualValue: string) => (mismatch?.field === field ? mismatch.xmlValue : visualValue);
+
+  const number = xmlValue('invoice_number', invoice.number);
+  const issueDate = xmlValue('issue_date', invoice.date);
+  const dueDate = xmlValue('due_date', invoice.dueDate);
+  const iban = xmlValue('iban', invoice.supplier.iban);
+  const total = parseFloat(xmlValue('total', invoice.total.toFixed(2)));
+
+  const lineItems = invoice.items.map((item, index) => {
+    const category = getTaxCategory(invoice, item.tax);
+    return xmlElement('ram:IncludedSupplyChainTradeLineItem', [
+      xmlElement('ram:AssociatedDocumentLineDocument', [xmlElement('ram:LineID', index + 1)]),
+      xmlElement('ram:SpecifiedTradeProduct', [xmlElement('ram:Name', item.name)]),
+      xmlElement('ram:SpecifiedLineTradeAgreement', [
+        xmlElement('ram:NetPriceProductTradePrice', [xmlElement('ram:ChargeAmount', money(item.price))]),
+      ]),
+      xmlElement('ram:SpecifiedLineTradeDelivery', [xmlElement('ram:BilledQuantity', item.quantity, { unitCode: 'C62' })]),
+      xmlElement('ram:SpecifiedLineTradeSettlement', [
+        xmlElement('ram:ApplicableTradeTax', [
+          xmlElement('ram:TypeCode', 'VAT'),
+          xmlElement('ram:CategoryCode', category.code),
+          category.rate !== undefined ? xmlElement('ram:RateApplicablePercent', category.rate) : undefined,
+        ]),
+        xmlElement('ram:SpecifiedTradeSettlementLineMonetarySummation', [
+          xmlElement('ram:LineTotalAmount', money(item.quantity * item.price)),
+        ]),
+      ]),
+    ]);
+  });
+
+  const seller = xmlElement('ram:SellerTradeParty', [
+    xmlElement('ram:Name', invoice.supplier.name),
+    outsideVatScope
+      ? xmlElement('ram:SpecifiedLegalOrganization', [xmlElement('ram:ID', invoice.supplier.vatId)])
+      : undefined,
+    profile === 'EN16931'
+      ? xmlElement('ram:DefinedTradeContact', [
+          xmlElement('ram:PersonName', SELLER_CONTACT_NAME),
+          xmlElement('ram:TelephoneUniversalCommunication', [xmlElement('ram:CompleteNumber', invoice.supplier.phone)]),
+          xmlElement('ram:EmailURIUniversalCommunication', [xmlElement('ram:URIID', invoice.supplier.email)]),
+        ])
+      : undefined,
+    hasDetails
+      ? postalAddress(invoice.supplier)
+      : xmlElement('ram:PostalTradeAddress', [xmlElement('ram:CountryID', invoice.supplier.countryCode)]),
+    profile === 'EN16931'
+      ? xmlElement('ram:URIUniversalCommunication', [xmlElement('ram:URIID', invoice.supplier.email, { schemeID: 'EM' })])
+      : undefined,
+    outsideVatScope ? undefined : taxRegistration(invoice.supplier),
+  ]);
+
+  const buyer = xmlElement('ram:BuyerTradeParty', [
+    xmlElement('ram:Name', invoice.customer.name),
+    hasDetails ? postalAddress(invoice.customer) : undefined,
+    // XRechnung requires the buyer's electronic address (BT-49)
+    xrechnung
+      ? xmlElement('ram:URIUniversalCommunication', [xmlElement('ram:URIID', invoice.customer.email, { schemeID: 'EM' })])
+      : undefined,
+    hasDetails && !outsideVatScope ? taxRegistration(invoice.customer) : undefined,
+  ]);
+
+  const taxBreakdown = invoice.taxBreakdown.map((entry) => {
+    const category = getTaxCategory(invoice, entry.rate);
+    return xmlElement('ram:ApplicableTradeTax', [
+      xmlElement('ram:CalculatedAmount', money(entry.taxAmount)),
+      xmlElement('ram:TypeCode', 'VAT'),
+      category.exemptionReason ? xmlElement('ram:ExemptionReason', category.exemptionReason) : undefined,
+      xmlElement('ram:BasisAmount', money(entry.taxableAmount)),
+      xmlElement('ram:CategoryCode', category.code),
+      category.rate !== undefined ? xmlElement('ram:RateApplicablePercent', category.rate) : undefined,
+    ]);
+  });
+
+  const settlement = xmlElement('ram:ApplicableHeaderTradeSettlement', [
+    hasDetails ? xmlElement('ram:PaymentReference', number) : undefined,
+    xmlElement('ram:InvoiceCurrencyCode', invoice.currency),
+    // XRechnung requires payment instructions on credit notes too; the refund goes to the customer's account
+    hasDetails && (!isCreditNote || xrechnung)
+      ? xmlElement('ram:SpecifiedTradeSettlementPaymentMeans', [
+          xmlElement('ram:TypeCode', SEPA_CREDIT_TRANSFER),
+          xmlElement('ram:PayeePartyCreditorFinancialAccount', [
+            xmlElement('ram:IBANID', isCreditNote ? invoice.customer.iban : iban),
+          ]),
+        ])
+      : undefined,
+    ...(hasDetails ? taxBreakdown : []),
+    hasDetails
+      ? xmlElement('ram:SpecifiedTradePaymentTerms', [
+          invoice.paymentTerms
+            ? xmlElement('ram:Description', paymentTermsDescription(invoice.paymentTerms, xrechnung))
+            : undefined,
+          dateTime('ram:DueDateDateTime', dueDate),
+        ])
+      : undefined,
+    xmlElement('ram:SpecifiedTradeSettlementHeaderMonetarySummation', [
+      hasDetails ? xmlElement('ram:LineTotalAmount', money(invoice.subtotal)) : undefined,
+      xmlElement('ram:TaxBasisTotalAmount', money(invoice.subtotal)),
+      xmlElement('ram:TaxTotalAmount', money(invoice.taxTotal), { currencyID: invoice.currency }),
+      xmlElement('ram:GrandTotalAmount', money(total)),
+      xmlElement('ram:DuePayableAmount', money(total)),
+    ]),
+    hasDetails && invoice.originalInvoiceNumber
+      ? xmlElement('ram:InvoiceReferencedDocument', [xmlElement('ram:IssuerAssignedID', invoice.originalInvoiceNumber)])
+      : undefined,
+  ]);
+
+  return renderXmlDocument(
+    xmlElement('rsm:CrossIndustryInvoice', [
+      xmlElement('rsm:ExchangedDocumentContext', [
+        xmlElement('ram:GuidelineSpecifiedDocumentContextParameter', [xmlElement('ram:ID', settings.guidelineId)]),
+      ]),
+      xmlElement('rsm:ExchangedDocument', [
+        xmlElement('ram:ID', number),
+        xmlElement('ram:TypeCode', isCreditNote ? CREDIT_NOTE_TYPE_CODE : INVOICE_TYPE_CODE),
+        dateTime('ram:IssueDateTime', issueDate),
+      ]),
+      xmlElement('rsm:SupplyChainTradeTransaction', [
+        ...(hasDetails ? lineItems : []),
+        xmlElement('ram:ApplicableHeaderTradeAgreement', [
+          xrechnung ? xmlElement('ram:BuyerReference', BUYER_REFERENCE) : undefined,
+          seller,
+          buyer,
+        ]),
+        xmlElement('ram:ApplicableHeaderTradeDelivery', [
+          hasDetails
+            ? xmlElement('ram:ActualDeliverySupplyChainEvent', [dateTime('ram:OccurrenceDateTime', invoice.date)])
+            : undefined,
+        ]),
+        settlement,
+      ]),
+    ], CII_NAMESPACES)
+  );
+}
+
+// CII XML of an invoice in the given Factur-X profile, as embedded in its hybrid PDF
+export function generateFacturXml(invoice: Invoice, embedding: FacturXEmbedding): string {
+  return buildCiiXml(invoice, {
+    profile: embedding.profile,
+    guidelineId: GUIDELINE_IDS[embedding.profile],
+    mismatch: embedding.mismatch,
+    xrechnung: false,
+  });
+}
+
+// XRechnung 3.0 CII XML of an invoice: the EN16931 profile with buyer reference, payment instructions on every
+// document and machine-readable cash discount terms. It always matches the printed invoice.
+export function generateXRechnungXml(invoice: Invoice): string {
+  return buildCiiXml(invoice, { profile: 'EN16931', guidelineId: XRECHNUNG_GUIDELINE_ID, xrechnung: true });
+}
+
+// XMP metadata packet that declares a PDF a Factur-X hybrid of the given profile
+export function generateFacturXMetadata(profile: FacturXProfile): string {
+  const extensionSchema = xmlElement('rdf:li', [
+    xmlElement('pdfaSchema:schema', 'Factur-X PDFA Extension Schema'),
+    xmlElement('pdfaSchema:namespaceURI', FACTUR_X_XMP_NAMESPACE),
+    xmlElement('pdfaSchema:prefix', 'fx'),
+    xmlElement('pdfaSchema:property', [
+      xmlElement(
+        'rdf:Seq',
+        XMP_PROPERTIES.map((property) =>
+          xmlElement('rdf:li', [
+            xmlElement('pdfaProperty:name', property.name),
+            xmlElement('pdfaProperty:valueType', 'Text'),
+            xmlElement('pdfaProperty:category', 'external'),
+            xmlElement('pdfaProperty:description', property.description),
+          ], { 'rdf:parseType': 'Resource' })
+        )
+      ),
+    ]),
+  ], { 'rdf:parseType': 'Resource' });
+
+  const xmpmeta = xmlElement('x:xmpmeta', [
+    xmlElement('rdf:RDF', [
+      xmlElement('rdf:Description', [
+        xmlElement('fx:DocumentType', 'INVOICE'),
+        xmlElement('fx:DocumentFileName', FACTUR_X_FILE_NAME),
+        xmlElement('fx:Version', '1.0'),
+        xmlElement('fx:ConformanceLevel', CONFORMANCE_LEVELS[profile]),
+      ], { 'rdf:about': '', 'xmlns:fx': FACTUR_X_XMP_NAMESPACE }),
+      xmlElement('rdf:Description', [
+        xmlElement('pdfaExtension:schemas', [xmlElement('rdf:Bag', [extensionSchema])]),
+      ], {
+        'rdf:about': '',
+        'xmlns:pdfaExtension': 'http://www.aiim.org/pdfa/ns/extension/',
+        'xmlns:pdfaSchema': 'http://www.aiim.org/pdfa/ns/schema#',
+        'xmlns:pdfaProperty': 'http://www.aiim.org/pdfa/ns/property#',
+      }),
+    ], { 'xmlns:rdf': 'http://www.w3.org/1999/02/22-rdf-syntax-ns#' }),
+  ], { 'xmlns:x': 'adobe:ns:meta/' });
+
+  return `<?xpacket begin="\uFEFF" id="W5M0MpCehiHzreSzNTczkc9d"?>\n${renderXmlElement(xmpmeta)}\n<?xpacket end="w"?>`;
+}
@@ -1,21 +1,65 @@
-import { v4 as uuidv4 } from 'uuid';
+import { faker } from '@faker-js/faker';
 import {
   TestCase,
   TestCaseType,
   TestCaseConfig,
   Invoice,
   BankTransaction,
+  ChargeBearer,
   Company,
+  CounterpartyMasterData,
+  DunningLetter,
+  FacturXMismatch,
+  FacturXMismatchField,
+  FacturXProfile,
   InvoiceItem,
+  InvoiceNumberScheme,
+  LateFeeBreakdown,
+  ThirdPartyRelationship,
   GeneratedTestSuite,
+  GenerationOptions,
+  InvoiceDocumentType,
+  NoiseTransaction,
+  NumberRange,
+  PaymentTerms,
+  PspCharge,
+  PspPayout,
+  ReferenceMutationKind,
+  TaxBreakdownEntry,
+  TestCaseParams,
   TransactionDirection,
+  VatTreatment,
+  TEST_CASE_PARAM_DEFAULTS,
 } from './types';
 import {
-  getRandomSupplier,
+  CounterpartyPool,
+  createCounterpartyPool,
+  getCounterparty,
   getRandomProducts,
   getRandomGenericDescription,
   getRandomNameVariation,
+  generateThirdPartyPayer,
+  getVatRates,
+  isEuVatCountry,
 } from './suppliers';
+import { generateNoiseTransaction, getRandomNoiseCategory } from './noise';
+import { FOREIGN_CURRENCIES, getExchangeRate } from './currency';
+import { REFERENCE_MUTATION_KINDS, corruptReference } from './references';
+import { applyBankTextProfile } from './bankText';
+import { getStatementRows, getTestCaseTransactions } from './statement';
+import { formatCsvRow, generateBankTransactionsCsv, resolveCsvDialect } from './csv';
+import { addBankBusinessDays, applyBankingCalendar, isBankBusinessDay, rollToBankBusinessDay } from './calendar';
+import { calculateDefaultInterest, isBaseRatePublished, pickDunningCharges } from './dunning';
+import {
+  PAYMENT_SERVICE_PROVIDERS,
+  calculatePspFee,
+  generatePspChargeId,
+  generatePspPayoutReference,
+  getPspAccount,
+} from './psp';
+
+// Bumped whenever a change alters the output produced for a given seed
+export const GENERATOR_VERSION = '1.11.0';
 
 // Default company (used as customer for payables, as supplier for receivables)
 const DEFAULT_COMPANY: Company = {
@@ -27,18 +71,37 @@ const DEFAULT_COMPANY: Company = {
   bankName: 'Deutsche Bank AG',
   iban: 'DE89370400440532013001',
   vatId: 'DE987654321',
+  countryCode: 'DE',
 };
 
 // Utility functions
+// All randomness goes through the global faker instance so a single seed reproduces a suite
 function randomBetween(min: number, max: number): number {
-  return Math.floor(Math.random() * (max - min + 1)) + min;
+  return faker.number.int({ min, max });
 }
 
 function randomFloat(min: number, max: number, decimals: number = 2): number {
-  const value = Math.random() * (max - min) + min;
+  const value = faker.number.float({ min, max });
   return parseFloat(value.toFixed(decimals));
 }
 
+// Draw a whole number from a parameter range; resolved parameters carry every range their type takes
+function pickInRange(range: NumberRange | undefined): number {
+  if (!range) {
+    throw new Error('Parameter range missing for this test case type');
+  }
+  return randomBetween(range.min, range.max);
+}
+
+// Parameters of a test case type, with the type's defaults for those not set
+function resolveTestCaseParams(type: TestCaseType, params?: TestCaseParams): TestCaseParams {
+  return { ...TEST_CASE_PARAM_DEFAULTS[type], ...params };
+}
+
+function randomUuid(): string {
+  return faker.string.uuid();
+}
+
 function formatDate(date: Date): string {
   return date.toISOString().split('T')[0];
 }
@@ -49,19 +112,118 @@ function addDays(date: Date, days: number): Date {
   return result;
 }
 
-function generateInvoiceNumber(year: number, sequence: number, direction: TransactionDirection): string {
-  const prefix = direction === 'receivables' ? 'INV' : 'BILL';
+// Luhn check digit over a string of digits
+function luhnCheckDigit(digits: string): number {
+  let sum = 0;
+  [...digits].reverse().forEach((char, i) => {
+    let value = parseInt(char, 10);
+    if (i % 2 === 0) {
+      value *= 2;
+      if (value > 9) {
+        value -= 9;
+      }
+    }
+    sum += value;
+  });
+  return (10 - (sum % 10)) % 10;
+}
+
+// Format a number in the supplier's own scheme; credit notes swap the prefix, or get one when the scheme has none
+function formatSchemeNumber(
+  scheme: InvoiceNumberScheme,
+  countryCode: string,
+  year: number,
+  sequence: number,
+  documentType: InvoiceDocumentType
+): string {
+  const value = scheme.offset + sequence;
+  const isCreditNote = documentType === 'credit_note';
+  const prefix = isCreditNote && scheme.prefix ? scheme.creditNotePrefix : scheme.prefix;
+
+  let number: string;
+  switch (scheme.kind) {
+    case 'year_sequence':
+      number = `${prefix}-${year}-${value.toString().padStart(4, '0')}`;
+      break;
+    case 'prefix_year_slash':
+      number = `${prefix}${year}/${value.toString().padStart(4, '0')}`;
+      break;
+    case 'prefix_padded':
+      number = `${prefix}-${value.toString().padStart(6, '0')}`;
+      break;
+    case 'plain':
+      number = value.toString();
+      break;
+    case 'year_country':
+      number = `${year}-${countryCode}-${value.toString().padStart(5, '0')}`;
+      break;
+    case 'check_digit': {
+      const digits = value.toString().padStart(7, '0');
+      number = `${prefix}${digits}${luhnCheckDigit(digits)}`;
+      break;
+    }
+  }
+
+  return isCreditNote && !scheme.prefix ? `${scheme.creditNotePrefix}-${number}` : number;
+}
+
+// Number a document; suppliers with their own scheme use it, everything else gets INV-/BILL- numbers
+function generateInvoiceNumber(
+  supplier: Company,
+  year: number,
+  sequence: number,
+  direction: TransactionDirection,
+  documentType: InvoiceDocumentType = 'invoice'
+): string {
+  if (supplier.invoiceNumberScheme) {
+    return formatSchemeNumber(supplier.invoiceNumberScheme, supplier.countryCode, year, sequence, documentType);
+  }
+
+  let prefix = direction === 'receivables' ? 'INV' : 'BILL';
+  if (documentType === 'credit_note') {
+    prefix = direction === 'receivables' ? 'CN' : 'BILL-CN';
+  }
   return `${prefix}-${year}-${sequence.toString().padStart(4, '0')}`;
 }
 
-// Generate invoice items with realistic prices
-function generateInvoiceItems(itemCount: number = 3): InvoiceItem[] {
+// Legal notes printed on invoices that charge no VAT
+const VAT_TREATMENT_NOTES: Record<Exclude<VatTreatment, 'domestic'>, string> = {
+  reverse_charge: 'Reverse charge: VAT to be accounted for by the recipient (Art. 196 Council Directive 2006/112/EC).',
+  non_eu: 'No VAT charged: supply outside the EU VAT area.',
+};
+
+// Decide how VAT is charged between two companies (all generated companies are businesses)
+function getVatTreatment(supplier: Company, customer: Company): VatTreatment {
+  if (supplier.countryCode === customer.countryCode) {
+    return 'domestic';
+  }
+  return isEuVatCountry(supplier.countryCode) && isEuVatCountry(customer.countryCode)
+    ? 'reverse_charge'
+    : 'non_eu';
+}
+
+// Pick an item's VAT rate: mostly the standard rate, sometimes a reduced rate or exempt
+function pickVatRate(countryCode: string): number {
+  const { standard, reduced } = getVatRates(countryCode);
+  return faker.helpers.weightedArrayElement([
+    { value: standard, weight: 70 },
+    { value: faker.helpers.arrayElement(reduced), weight: 20 },
+    { value: 0, weight: 10 },
+  ]);
+}
+
+// Generate invoice items with realistic prices, taxed at the supplier country's rates
+function generateInvoiceItems(
+  itemCount: number,
+  supplierCountryCode: string,
+  vatTreatment: VatTreatment
+): InvoiceItem[] {
   const products = getRandomProducts(itemCount);
   return products.map((product) => {
     const quantity = randomBetween(1, 10);
     const priceVariation = randomFloat(0.8, 1.2);
     const price = parseFloat((product.basePrice * priceVariation).toFixed(2));
-    const tax = randomBetween(0, 2) === 0 ? 0 : 19; // German VAT or exempt
+    const tax = vatTreatment === 'domestic' ? pickVatRate(supplierCountryCode) : 0;
     return {
       name: product.name,
       quantity,
@@ -71,54 +233,125 @@ function generateInvoiceItems(itemCount: number = 3): InvoiceItem[] {
   });
 }
 
-// Calculate invoice totals
+// Calculate invoice totals; VAT is rounded per rate, as printed in the tax breakdown
 function calculateInvoiceTotals(items: InvoiceItem[]): {
   subtotal: number;
   taxTotal: number;
   total: number;
+  taxBreakdown: TaxBreakdownEntry[];
 } {
+  const netByRate = new Map<number, number>();
   let subtotal = 0;
-  let taxTotal = 0;
 
   for (const item of items) {
     const itemSubtotal = item.quantity * item.price;
-    const itemTax = (itemSubtotal * item.tax) / 100;
     subtotal += itemSubtotal;
-    taxTotal += itemTax;
+    netByRate.set(item.tax, (netByRate.get(item.tax) ?? 0) + itemSubtotal);
   }
 
+  const taxBreakdown = [...netByRate.entries()]
+    .sort(([a], [b]) => b - a)
+    .map(([rate, net]) => ({
+      rate,
+      taxableAmount: parseFloat(net.toFixed(2)),
+      taxAmount: parseFloat(((net * rate) / 100).toFixed(2)),
+    }));
+  const taxTotal = taxBreakdown.reduce((sum, entry) => sum + entry.taxAmount, 0);
+
   return {
     subtotal: parseFloat(subtotal.toFixed(2)),
     taxTotal: parseFloat(taxTotal.toFixed(2)),
     total: parseFloat((subtotal + taxTotal).toFixed(2)),
+    taxBreakdown,
   };
 }
 
-// Generate a single invoice
+// Cash discount offered for early payment by each discount test case type
+const DISCOUNT_TYPE_PERCENTS: Partial<Record<TestCaseType, number>> = {
+  discount_1_percent: 1,
+  discount_2_percent: 2,
+  discount_3_percent: 3,
+};
+
+// Generate payment terms; without a forced discount percent, about a quarter of invoices offer one
+function generatePaymentTerms(invoiceDate: Date, discountPercent?: number): PaymentTerms {
+  const percent = discountPercent ?? (faker.number.float() < 0.25 ? faker.helpers.arrayElement([2, 2, 3]) : undefined);
+  if (percent === undefined) {
+    const netDays = faker.helpers.arrayElement([14, 21, 30]);
+    return { netDays, text: `Net ${netDays} days` };
+  }
+
+  const discountDays = faker.helpers.arrayElement([7, 10, 14]);
+  const netDays = faker.helpers.arrayElement([21, 30, 45]);
+  return {
+    netDays,
+    discountPercent: percent,
+    discountDays,
+    discountDueDate: formatDate(addDays(invoiceDate, discountDays)),
+    text: `${percent}% within ${discountDays} days, net ${netDays}`,
+  };
+}
+
+// Business days between two day offsets from the invoice date (both inclusive)
+function businessDaysAfterInvoice(invoice: Invoice, fromDay: number, toDay: number, bankCountryCode: string): Date[] {
+  const dates: Date[] = [];
+  for (let day = fromDay; day <= toDay; day++) {
+    const date = addDays(new Date(invoice.date), day);
+    if (isBankBusinessDay(formatDate(date), bankCountryCode)) {
+      dates.push(date);
+    }
+  }
+  return dates;
+}
+
+// Payment date inside the cash discount window; early enough that a booking one business day
+// after the value date still falls inside it
+function pickDateInDiscountWindow(invoice: Invoice, bankCountryCode: string): Date {
+  const lastDay = invoice.paymentTerms?.discountDueDate;
+  const candidates = businessDaysAfterInvoice(invoice, 1, invoice.paymentTerms?.discountDays ?? 5, bankCountryCode)
+    .filter((date) => !lastDay || addBankBusinessDays(formatDate(date), 1, bankCountryCode) <= lastDay);
+  return candidates.length > 0 ? faker.helpers.arrayElement(candidates) : addDays(new Date(invoice.date), 1);
+}
+
+// Payment date after the cash discount window closed, but by the net due date
+function pickDateAfterDiscountWindow(invoice: Invoice, bankCountryCode: string): Date {
+  const terms = invoice.paymentTerms;
+  const firstDay = (terms?.discountDays ?? 10) + 1;
+  const candidates = businessDaysAfterInvoice(invoice, firstDay, terms?.netDays ?? 30, bankCountryCode);
+  return candidates.length > 0 ? faker.helpers.arrayElement(candidates) : addDays(new Date(invoice.date), firstDay);
+}
+
+// Generate a single invoice; a discount percent forces payment terms that offer this cash discount
 function generateInvoice(
   dateRange: { start: Date; end: Date },
   supplier: Company,
   customer: Company,
   invoiceSequence: number,
-  direction: TransactionDirection
+  direction: TransactionDirection,
+  discountPercent?: number
 ): Invoice {
   const daysDiff = Math.floor(
     (dateRange.end.getTime() - dateRange.start.getTime()) / (1000 * 60 * 60 * 24)
   );
   const randomDays = randomBetween(0, daysDiff);
   const invoiceDate = addDays(dateRange.start, randomDays);
-  const dueDate = addDays(invoiceDate, randomBetween(14, 30)); // Payment terms 14-30 days
+  const paymentTerms = generatePaymentTerms(invoiceDate, discountPercent);
+  const dueDate = addDays(invoiceDate, paymentTerms.netDays);
 
-  const items = generateInvoiceItems(randomBetween(1, 5));
-  const { subtotal, taxTotal, total } = calculateInvoiceTotals(items);
+  const vatTreatment = getVatTreatment(supplier, customer);
+  const items = generateInvoiceItems(randomBetween(1, 5), supplier.countryCode, vatTreatment);
+  const { subtotal, taxTotal, total, taxBreakdown } = calculateInvoiceTotals(items);
 
-  const note = direction === 'receivables'
+  let note = direction === 'receivables'
     ? 'Thank you for your business. Payment due within the specified terms.'
     : 'Please process payment by the due date. Thank you.';
+  if (vatTreatment !== 'domestic') {
+    note = `${VAT_TREATMENT_NOTES[vatTreatment]} ${note}`;
+  }
 
   return {
-    id: uuidv4(),
-    number: generateInvoiceNumber(invoiceDate.getFullYear(), invoiceSequence, direction),
+    id: randomUuid(),
+    number: generateInvoiceNumber(supplier, invoiceDate.getFullYear(), invoiceSequence, direction),
     date: formatDate(invoiceDate),
     dueDate: formatDate(dueDate),
     supplier,
@@ -130,6 +363,128 @@ function generateInvoice(
     currency: 'EUR',
     note,
     direction,
+    documentType: 'invoice',
+    vatTreatment,
+    taxBreakdown,
+    paymentTerms,
+  };
+}
+
+// Generate a credit note that reverses some (or all) of the items of an invoice
+function generateCreditNote(original: Invoice, invoiceSequence: number): Invoice {
+  const creditDate = addDays(new Date(original.date), randomBetween(5, 20));
+
+  // Credit a random subset of the items, sometimes only part of the quantity
+  const creditedItems = faker.helpers
+    .arrayElements(original.items, { min: 1, max: original.items.length })
+    .map((item) => ({
+      ...item,
+      quantity: randomBetween(1, item.quantity),
+      price: -item.price,
+    }));
+  const { subtotal, taxTotal, total, taxBreakdown } = calculateInvoiceTotals(creditedItems);
+
+  return {
+    id: randomUuid(),
+    number: generateInvoiceNumber(original.supplier, creditDate.getFullYear(), invoiceSequence, original.direction, 'credit_note'),
+    date: formatDate(creditDate),
+    dueDate: formatDate(creditDate),
+    supplier: original.supplier,
+    customer: original.customer,
+    items: creditedItems,
+    subtotal,
+    taxTotal,
+    total,
+    currency: original.currency,
+    note: original.vatTreatment === 'domestic'
+      ? `This credit note refers to invoice ${original.number}.`
+      : `This credit note refers to invoice ${original.number}. ${VAT_TREATMENT_NOTES[original.vatTreatment]}`,
+    direction: original.direction,
+    documentType: 'credit_note',
+    originalInvoiceNumber: original.number,
+    vatTreatment: original.vatTreatment,
+    taxBreakdown,
+  };
+}
+
+// Round fees banks typically charge for cross-border payments
+const BANK_FEE_AMOUNTS = [10, 15, 20, 25, 30, 35, 50];
+
+// Foreign-currency invoice setup: currency, payment date and the rates on both dates
+interface FxScenario {
+  currency: string;
+  paymentDate: Date;
+  invoiceDateRate: number;
+  paymentDateRate: number;
+}
+
+// Find a currency and payment date (a business day within the day offset range) where the rate moved
+// by an amount in the FX change range, so that converting at the payment date yields an FX gain or loss for us.
+// When the rates make no such move, the move in the right direction closest to the range is taken; when no
+// payment date in the range is a business day, the week after the range is searched as well.
+function findFxScenario(
+  invoiceDate: string,
+  wantGain: boolean,
+  direction: TransactionDirection,
+  bankCountryCode: string,
+  params: TestCaseParams
+): FxScenario {
+  const dayOffset = params.dayOffset ?? { min: 3, max: 30 };
+  const changePercent = params.fxChangePercent ?? { min: 0.05, max: 10 };
+  let closest: { scenario: FxScenario; distance: number } | undefined;
+
+  for (const extraDays of [0, 7]) {
+    for (const currency of faker.helpers.shuffle([...FOREIGN_CURRENCIES])) {
+      const invoiceDateRate = getExchangeRate(currency, invoiceDate);
+      const offsets = faker.helpers.shuffle(
+        Array.from({ length: dayOffset.max + extraDays - dayOffset.min + 1 }, (_, i) => i + dayOffset.min)
+      );
+
+      for (const offset of offsets) {
+        const paymentDate = addDays(new Date(invoiceDate), offset);
+        // Conversion happens on the value date, which is always a business day
+        if (!isBankBusinessDay(formatDate(paymentDate), bankCountryCode)) {
+          continue;
+        }
+        const paymentDateRate = getExchangeRate(currency, formatDate(paymentDate));
+        const change = paymentDateRate / invoiceDateRate - 1;
+        // A stronger EUR (higher rate) means paying less for payables but receiving less for receivables
+        const isGain = direction === 'payables' ? change > 0 : change < 0;
+        if (isGain !== wantGain || change === 0) {
+          continue;
+        }
+        // The default minimum requires a visible move so the EUR amounts differ after rounding
+        const distance = Math.max(changePercent.min / 100 - Math.abs(change), Math.abs(change) - changePercent.max / 100, 0);
+        const scenario = { currency, paymentDate, invoiceDateRate, paymentDateRate };
+        if (distance === 0) {
+          return scenario;
+        }
+        if (!closest || distance < closest.distance) {
+          closest = { scenario, distance };
+        }
+      }
+    }
+    if (closest) {
+      return closest.scenario;
+    }
+  }
+
+  throw new Error(
+    `No FX ${wantGain ? 'gain' : 'loss'} of ${changePercent.min}-${changePercent.max}% within ${dayOffset.min}-${dayOffset.max} days of invoice date ${invoiceDate}`
+  );
+}
+
+// Re-issue an EUR invoice in a foreign currency at the given rate
+function convertInvoiceCurrency(invoice: Invoice, currency: string, rate: number): Invoice {
+  const items = invoice.items.map((item) => ({
+    ...item,
+    price: parseFloat((item.price * rate).toFixed(2)),
+  }));
+  return {
+    ...invoice,
+    items,
+    ...calculateInvoiceTotals(items),
+    currency,
   };
 }
 
@@ -137,13 +492,15 @@ function generateInvoice(
 function generateTransaction(
   invoice: Invoice,
   type: TestCaseType,
-  direction: TransactionDirection
+  direction: TransactionDirection,
+  params: TestCaseParams,
+  bankCountryCode: string,
+  fx?: FxScenario
 ): { transaction: BankTransaction; metadata: TestCase['metadata'] } {
   const invoiceDate = new Date(invoice.date);
   let transactionDate: Date;
   let amount: number;
   let description: string;
-  let counterparty: string;
   const metadata: TestCase['metadata'] = {
     originalAmount: invoice.total,
     adjustedAmount: invoice.total,
@@ -155,91 +512,100 @@ function generateTransaction(
   // For receivables: counterparty is the customer (they pay us)
   const counterpartyCompany = direction === 'payables' ? invoice.supplier : invoice.customer;
   // Use random name variation for more realistic bank transaction matching scenarios
-  counterparty = getRandomNameVariation(counterpartyCompany);
+  const counterparty = getRandomNameVariation(counterpartyCompany);
 
   // Amount sign: negative for payables (money out), positive for receivables (money in)
   const amountSign = direction === 'payables' ? -1 : 1;
 
   switch (type) {
     case 'perfect_match':
-      transactionDate = addDays(invoiceDate, randomBetween(1, 7));
+      transactionDate = addDays(invoiceDate, pickInRange(params.dayOffset));
       amount = amountSign * invoice.total;
       description = `${invoice.number} Payment`;
       metadata.matchingFields = ['counterparty', 'amount', 'invoice_number', 'date_proximity'];
       break;
 
     case 'discount_1_percent':
-      transactionDate = addDays(invoiceDate, randomBetween(1, 5));
+      transactionDate = pickDateInDiscountWindow(invoice, bankCountryCode);
       amount = amountSign * parseFloat((invoice.total * 0.99).toFixed(2));
       description = `${invoice.number} Payment 1% early discount`;
       metadata.adjustedAmount = Math.abs(amount);
       metadata.discountPercent = 1;
-      metadata.adjustmentReason = '1% early payment discount';
+      metadata.adjustmentReason = `1% early payment discount (window until ${invoice.paymentTerms?.discountDueDate})`;
       metadata.matchingFields = ['counterparty', 'invoice_number', 'date_proximity'];
       metadata.mismatchedFields = ['amount (1% discount applied)'];
       break;
 
     case 'discount_2_percent':
-      transactionDate = addDays(invoiceDate, randomBetween(1, 5));
+      transactionDate = pickDateInDiscountWindow(invoice, bankCountryCode);
       amount = amountSign * parseFloat((invoice.total * 0.98).toFixed(2));
       description = `${invoice.number} Payment 2% early discount`;
       metadata.adjustedAmount = Math.abs(amount);
       metadata.discountPercent = 2;
-      metadata.adjustmentReason = '2% early payment discount';
+      metadata.adjustmentReason = `2% early payment discount (window until ${invoice.paymentTerms?.discountDueDate})`;
       metadata.matchingFields = ['counterparty', 'invoice_number', 'date_proximity'];
       metadata.mismatchedFields = ['amount (2% discount applied)'];
       break;
 
     case 'discount_3_percent':
-      transactionDate = addDays(invoiceDate, randomBetween(1, 5));
+      transactionDate = pickDateInDiscountWindow(invoice, bankCountryCode);
       amount = amountSign * parseFloat((invoice.total * 0.97).toFixed(2));
       description = `${invoice.number} Payment 3% early discount`;
       metadata.adjustedAmount = Math.abs(amount);
       metadata.discountPercent = 3;
-      metadata.adjustmentReason = '3% early payment discount';
+      metadata.adjustmentReason = `3% early payment discount (window until ${invoice.paymentTerms?.discountDueDate})`;
       metadata.matchingFields = ['counterparty', 'invoice_number', 'date_proximity'];
       metadata.mismatchedFields = ['amount (3% discount applied)'];
       break;
 
-    case 'fx_gain':
-      transactionDate = addDays(invoiceDate, randomBetween(3, 14));
-      const gainRate = randomFloat(0.95, 0.99);
-      // FX gain for payables = paid less, for receivables = received more
-      const gainMultiplier = direction === 'payables' ? gainRate : (2 - gainRate);
-      amount = amountSign * parseFloat((invoice.total * gainMultiplier).toFixed(2));
-      description = `${invoice.number} FX Payment`;
+    case 'discount_after_window': {
+      const percent = invoice.paymentTerms?.discountPercent ?? 2;
+      transactionDate = pickDateAfterDiscountWindow(invoice, bankCountryCode);
+      amount = amountSign * parseFloat((invoice.total * (1 - percent / 100)).toFixed(2));
+      description = `${invoice.number} Payment ${percent}% early discount`;
       metadata.adjustedAmount = Math.abs(amount);
-      metadata.fxRate = gainRate;
-      metadata.adjustmentReason = `FX gain (rate: ${gainRate.toFixed(4)})`;
+      metadata.discountPercent = percent;
+      metadata.invalidDeductionAmount = parseFloat((invoice.total - Math.abs(amount)).toFixed(2));
+      metadata.adjustmentReason = `${percent}% discount deducted after the discount window closed on ${invoice.paymentTerms?.discountDueDate} (invalid deduction)`;
       metadata.matchingFields = ['counterparty', 'invoice_number'];
-      metadata.mismatchedFields = ['amount (FX gain)'];
+      metadata.mismatchedFields = [`amount (${percent}% discount taken after window expired)`, 'date (outside discount window)'];
       break;
+    }
 
-    case 'fx_loss':
-      transactionDate = addDays(invoiceDate, randomBetween(3, 14));
-      const lossRate = randomFloat(1.01, 1.05);
-      // FX loss for payables = paid more, for receivables = received less
-      const lossMultiplier = direction === 'payables' ? lossRate : (2 - lossRate);
-      amount = amountSign * parseFloat((invoice.total * lossMultiplier).toFixed(2));
-      description = `${invoice.number} FX Payment`;
+    case 'fx_gain':
+    case 'fx_loss': {
+      if (!fx) {
+        throw new Error(`FX scenario required for ${type}`);
+      }
+      // Booked at the invoice-date rate, settled in EUR at the payment-date rate
+      const gainOrLoss = type === 'fx_gain' ? 'gain' : 'loss';
+      transactionDate = fx.paymentDate;
+      amount = amountSign * parseFloat((invoice.total / fx.paymentDateRate).toFixed(2));
+      description = `${invoice.number} ${invoice.currency} ${invoice.total.toFixed(2)}`;
+      metadata.originalAmount = parseFloat((invoice.total / fx.invoiceDateRate).toFixed(2));
       metadata.adjustedAmount = Math.abs(amount);
-      metadata.fxRate = lossRate;
-      metadata.adjustmentReason = `FX loss (rate: ${lossRate.toFixed(4)})`;
-      metadata.matchingFields = ['counterparty', 'invoice_number'];
-      metadata.mismatchedFields = ['amount (FX loss)'];
+      metadata.fxRate = fx.paymentDateRate;
+      metadata.invoiceCurrency = invoice.currency;
+      metadata.invoiceDateFxRate = fx.invoiceDateRate;
+      metadata.paymentDateFxRate = fx.paymentDateRate;
+      metadata.adjustmentReason = `FX ${gainOrLoss} (EUR/${invoice.currency} ${fx.invoiceDateRate.toFixed(4)} on ${invoice.date}, ${fx.paymentDateRate.toFixed(4)} on ${formatDate(fx.paymentDate)})`;
+      metadata.matchingFields = ['counterparty', 'invoice_number', 'foreign_amount'];
+      metadata.mismatchedFields = [`amount (FX ${gainOrLoss})`];
       break;
+    }
 
     case 'partial_match_no_description':
-      transactionDate = addDays(invoiceDate, randomBetween(1, 10));
+      transactionDate = addDays(invoiceDate, pickInRange(params.dayOffset));
       amount = amountSign * invoice.total;
       description = getRandomGenericDescription();
       metadata.matchingFields = ['counterparty', 'amount', 'date_proximity'];
       metadata.mismatchedFields = ['description (no invoice number)'];
       break;
 
-    case 'partial_match_amount_mismatch':
-      transactionDate = addDays(invoiceDate, randomBetween(1, 10));
-      const mismatchFactor = randomFloat(0.99, 1.01);
+    case 'partial_match_amount_mismatch': {
+      transactionDate = addDays(invoiceDate, pickInRange(params.dayOffset));
+      const deviation = params.amountDeviationPercent ?? { min: -1, max: 1 };
+      const mismatchFactor = 1 + randomFloat(deviation.min, deviation.max) / 100;
       amount = amountSign * parseFloat((invoice.total * mismatchFactor).toFixed(2));
       description = `${invoice.number} Payment`;
       metadata.adjustedAmount = Math.abs(amount);
@@ -247,25 +613,39 @@ function generateTransaction(
       metadata.matchingFields = ['counterparty', 'invoice_number', 'date_proximity'];
       metadata.mismatchedFields = ['amount (small unexplained difference)'];
       break;
+    }
 
-    case 'partial_match_date_far':
-      transactionDate = addDays(invoiceDate, randomBetween(30, 60));
-      amount = amountSign * invoice.total;
-      description = `${invoice.number} Late Payment`;
-      metadata.matchingFields = ['counterparty', 'amount', 'invoice_number'];
-      metadata.mismatchedFields = ['date (30+ days after invoice)'];
+    case 'bank_charges_deducted': {
+      transactionDate = addDays(invoiceDate, pickInRange(params.dayOffset));
+      const fee = faker.helpers.arrayElement(BANK_FEE_AMOUNTS);
+      // Receivables arrive short under SHA/BEN; for payables our bank debits the fee together with the payment (OUR)
+      const chargeBearer = direction === 'receivables'
+        ? faker.helpers.arrayElement<ChargeBearer>(['SHA', 'BEN'])
+        : 'OUR';
+      const netAmount = direction === 'receivables' ? invoice.total - fee : invoice.total + fee;
+      amount = amountSign * parseFloat(netAmount.toFixed(2));
+      description = `${invoice.number} Payment`;
+      metadata.adjustedAmount = Math.abs(amount);
+      metadata.bankFee = fee;
+      metadata.chargeBearer = chargeBearer;
+      metadata.adjustmentReason = `Bank charges of ${fee.toFixed(2)} EUR ${direction === 'receivables' ? 'deducted' : 'added'} (${chargeBearer})`;
+      metadata.matchingFields = ['counterparty', 'invoice_number', 'date_proximity'];
+      metadata.mismatchedFields = [`amount (round bank fee of ${fee.toFixed(2)})`];
       break;
+    }
 
-    case 'group_payment':
-      // This case is handled separately by generateGroupPaymentTestCase
-      transactionDate = addDays(invoiceDate, randomBetween(1, 7));
+    case 'partial_match_date_far': {
+      const offset = pickInRange(params.dayOffset);
+      transactionDate = addDays(invoiceDate, offset);
       amount = amountSign * invoice.total;
-      description = `${invoice.number} Payment`;
-      metadata.matchingFields = ['counterparty', 'amount', 'invoice_number', 'date_proximity'];
+      description = `${invoice.number} Late Payment`;
+      metadata.matchingFields = ['counterparty', 'amount', 'invoice_number'];
+      metadata.mismatchedFields = [`date (${offset} days after invoice)`];
       break;
+    }
 
     default:
-      transactionDate = addDays(invoiceDate, randomBetween(1, 7));
+      transactionDate = addDays(invoiceDate, pickInRange(params.dayOffset));
       amount = amountSign * invoice.total;
       description = `${invoice.number} Payment`;
       metadata.matchingFields = ['counterparty', 'amount', 'invoice_number', 'date_proximity'];
@@ -273,6 +653,7 @@ function generateTransaction(
 
   const transaction: BankTransaction = {
     date: formatDate(transactionDate),
+    value_date: formatDate(transactionDate),
     counterparty,
     counterparty_iban: counterpartyCompany.iban,
     description,
@@ -282,26 +663,299 @@ function generateTransaction(
   return { transaction, metadata };
 }
 
+// Split an invoice total into the given number of roughly equal installments (last one absorbs rounding)
+function splitIntoInstallments(total: number, count: number): number[] {
+  const installment = parseFloat((total / count).toFixed(2));
+  const amounts = Array.from({ length: count - 1 }, () => installment);
+  amounts.push(parseFloat((total - installment * (count - 1)).toFixed(2)));
+  return amounts;
+}
+
+// Generate several transactions that together pay one invoice
+function generateInstallmentTransactions(
+  invoice: Invoice,
+  type: TestCaseType,
+  direction: TransactionDirection,
+  params: TestCaseParams
+): { transactions: BankTransaction[]; metadata: TestCase['metadata'] } {
+  const counterpartyCompany = direction === 'payables' ? invoice.supplier : invoice.customer;
+  const amountSign = direction === 'payables' ? -1 : 1;
+
+  let amounts: number[];
+  let descriptions: string[];
+
+  if (type === 'partial_payment_then_remainder') {
+    // First payment covers 30-70% of the invoice, the rest is settled later
+    const firstAmount = parseFloat((invoice.total * randomFloat(0.3, 0.7)).toFixed(2));
+    amounts = [firstAmount, parseFloat((invoice.total - firstAmount).toFixed(2))];
+    descriptions = [`${invoice.number} Partial Payment`, `${invoice.number} Remaining Balance`];
+  } else {
+    const count = randomBetween(2, 4);
+    amounts = splitIntoInstallments(invoice.total, count);
+    descriptions = amounts.map((_, i) => `${invoice.number} Installment ${i + 1}/${count}`);
+  }
+
+  // First payment shortly after the invoice, then one every 2-4 weeks
+  let transactionDate = addDays(new Date(invoice.date), pickInRange(params.dayOffset));
+  const transactions = amounts.map((amount, i) => {
+    if (i > 0) {
+      transactionDate = addDays(transactionDate, randomBetween(14, 30));
+    }
+    return {
+      date: formatDate(transactionDate),
+      value_date: formatDate(transactionDate),
+      counterparty: getRandomNameVariation(counterpartyCompany),
+      counterparty_iban: counterpartyCompany.iban,
+      description: descriptions[i],
+      amount_eur: amountSign * amount,
+    };
+  });
+
+  const metadata: TestCase['metadata'] = {
+    originalAmount: invoice.total,
+    adjustedAmount: invoice.total,
+    adjustmentReason: type === 'partial_payment_then_remainder'
+      ? 'Partial payment followed by the remaining balance'
+      : `Invoice paid in ${amounts.length} installments`,
+    matchingFields: ['counterparty', 'invoice_number', 'total_amount (sum of transactions)'],
+    mismatchedFields: ['amount (each transaction covers part of the invoice)', 'date (payments spread over weeks)'],
+    installmentCount: amounts.length,
+  };
+
+  return { transactions, metadata };
+}
+
+// Generate an exact payment plus a separate bank fee line booked on the same day
+function generateSeparateFeeTransactions(
+  invoice: Invoice,
+  direction: TransactionDirection,
+  params: TestCaseParams
+): { transactions: BankTransaction[]; metadata: TestCase['metadata'] } {
+  const counterpartyCompany = direction === 'payables' ? invoice.supplier : invoice.customer;
+  const ourCompany = direction === 'payables' ? invoice.customer : invoice.supplier;
+  const amountSign = direction === 'payables' ? -1 : 1;
+  const date = formatDate(addDays(new Date(invoice.date), pickInRange(params.dayOffset)));
+  const fee = faker.helpers.arrayElement(BANK_FEE_AMOUNTS);
+  // Outgoing payments are charged to us under OUR or SHA; incoming ones under SHA
+  const chargeBearer = direction === 'payables'
+    ? faker.helpers.arrayElement<ChargeBearer>(['OUR', 'SHA'])
+    : 'SHA';
+
+  const transactions: BankTransaction[] = [
+    {
+      date,
+      value_date: date,
+      counterparty: getRandomNameVariation(counterpartyCompany),
+      counterparty_iban: counterpartyCompany.iban,
+      description: `${invoice.number} Payment`,
+      amount_eur: amountSign * invoice.total,
+    },
+    {
+      date,
+      value_date: date,
+      counterparty: ourCompany.bankName,
+      counterparty_iban: '',
+      description: `Charges ${direction === 'payables' ? 'outgoing' : 'incoming'} foreign payment ${invoice.number} ${chargeBearer}`,
+      amount_eur: -fee,
+    },
+  ];
+
+  const metadata: TestCase['metadata'] = {
+    originalAmount: invoice.total,
+    adjustedAmount: invoice.total,
+    adjustmentReason: `Separate bank fee line of ${fee.toFixed(2)} EUR (${chargeBearer})`,
+    bankFee: fee,
+    chargeBearer,
+    matchingFields: ['counterparty', 'amount', 'invoice_number', 'date_proximity'],
+    mismatchedFields: ['extra transaction (bank fee on the same day)'],
+  };
+
+  return { transactions, metadata };
+}
+
+// Generate the same payment twice a few days apart (e.g. once manually, once by the payment run)
+function generateDuplicatePaymentTransactions(
+  invoice: Invoice,
+  direction: TransactionDirection,
+  params: TestCaseParams
+): { transactions: BankTransaction[]; metadata: TestCase['metadata'] } {
+  const counterpartyCompany = direction === 'payables' ? invoice.supplier : invoice.customer;
+  const amountSign = direction === 'payables' ? -1 : 1;
+  const firstDate = addDays(new Date(invoice.date), pickInRange(params.dayOffset));
+  const secondDate = addDays(firstDate, randomBetween(1, 5));
+  const description = `${invoice.number} Payment`;
+
+  const transactions: BankTransaction[] = [firstDate, secondDate].map((date) => ({
+    date: formatDate(date),
+    value_date: formatDate(date),
+    counterparty: getRandomNameVariation(counterpartyCompany),
+    counterparty_iban: counterpartyCompany.iban,
+    description,
+    amount_eur: amountSign * invoice.total,
+  }));
+
+  const metadata: TestCase['metadata'] = {
+    originalAmount: invoice.total,
+    adjustedAmount: invoice.total,
+    adjustmentReason: `Invoice paid twice; the payment on ${transactions[1].date} is a duplicate`,
+    matchingFields: ['counterparty', 'amount', 'invoice_number', 'date_proximity'],
+    mismatchedFields: ['extra transaction (duplicate payment / refund candidate)'],
+    matchedTransactionIndex: 0,
+    duplicateTransactionIndex: 1,
+  };
+
+  return { transactions, metadata };
+}
+
+// Generate a payment where a third party pays (or collects) instead of the invoice party
+function generateThirdPartyTransaction(
+  invoice: Invoice,
+  direction: TransactionDirection,
+  params: TestCaseParams
+): { transaction: BankTransaction; metadata: TestCase['metadata'] } {
+  const invoiceParty = direction === 'payables' ? invoice.supplier : invoice.customer;
+  const amountSign = direction === 'payables' ? -1 : 1;
+  const relationship = faker.helpers.arrayElement<ThirdPartyRelationship>([
+    'parent_company',
+    'factoring_company',
+    'payment_provider',
+  ]);
+  const thirdParty = generateThirdPartyPayer(relationship, invoiceParty);
+
+  let description: string;
+  switch (relationship) {
+    case 'parent_company':
+      description = `${invoice.number} on behalf of ${invoiceParty.name}`;
+      break;
+    case 'factoring_company':
+      description = direction === 'payables'
+        ? `${invoice.number} assigned receivable ${invoiceParty.name}`
+        : `Collection ${invoice.number} debtor ${invoiceParty.name}`;
+      break;
+    case 'payment_provider':
+      description = `${thirdParty.name.split(' ')[0]} ref ${faker.string.alphanumeric({ length: 10, casing: 'upper' })} ${invoice.number}`;
+      break;
+  }
+
+  const date = formatDate(addDays(new Date(invoice.date), pickInRange(params.dayOffset)));
+  const transaction: BankTransaction = {
+    date,
+    value_date: date,
+    counterparty: thirdParty.name,
+    counterparty_iban: thirdParty.iban,
+    description,
+    amount_eur: amountSign * invoice.total,
+  };
+
+  const metadata: TestCase['metadata'] = {
+    originalAmount: invoice.total,
+    adjustedAmount: invoice.total,
+    adjustmentReason: `Paid via ${relationship.replace('_', ' ')} ${thirdParty.name} on behalf of ${invoiceParty.name}`,
+    matchingFields: ['amount', 'invoice_number', 'date_proximity'],
+    mismatchedFields: [`counterparty (third party: ${relationship})`, 'counterparty_iban'],
+    thirdParty: {
+      relationship,
+      name: thirdParty.name,
+      iban: thirdParty.iban,
+      onBehalfOf: invoiceParty.name,
+    },
+  };
+
+  return { transaction, metadata };
+}
+
 // Generate a single test case
 function generateTestCase(
   type: TestCaseType,
   direction: TransactionDirection,
   dateRange: { start: Date; end: Date },
   ourCompany: Company,
-  invoiceSequence: number
+  invoiceSequence: number,
+  params: TestCaseParams,
+  pool?: CounterpartyPool
 ): TestCase {
-  const otherParty = getRandomSupplier();
+  const otherParty = getCounterparty(pool);
 
   // For payables: other party is supplier, we are customer
   // For receivables: we are supplier, other party is customer
   const supplier = direction === 'payables' ? otherParty : ourCompany;
   const customer = direction === 'payables' ? ourCompany : otherParty;
 
-  const invoice = generateInvoice(dateRange, supplier, customer, invoiceSequence, direction);
-  const { transaction, metadata } = generateTransaction(invoice, type, direction);
+  // Discount cases are invoiced with terms that offer the discount they take
+  const discountPercent = type === 'discount_after_window'
+    ? pickInRange(params.discountPercent)
+    : DISCOUNT_TYPE_PERCENTS[type];
+  let invoice = generateInvoice(dateRange, supplier, customer, invoiceSequence, direction, discountPercent);
+
+  // FX cases are invoiced in a foreign currency at the invoice-date rate
+  let fx: FxScenario | undefined;
+  if (type === 'fx_gain' || type === 'fx_loss') {
+    fx = findFxScenario(invoice.date, type === 'fx_gain', direction, ourCompany.countryCode, params);
+    invoice = convertInvoiceCurrency(invoice, fx.currency, fx.invoiceDateRate);
+  }
+
+  // Open invoices have no payment on the statement
+  if (type === 'open_invoice') {
+    return {
+      id: randomUuid(),
+      type,
+      direction,
+      invoice,
+      metadata: {
+        originalAmount: invoice.total,
+        adjustedAmount: invoice.total,
+        adjustmentReason: 'Open invoice - no payment received yet',
+        matchingFields: [],
+        mismatchedFields: ['transaction (none - invoice is unpaid)'],
+      },
+    };
+  }
+
+  if (type === 'installment_payment' || type === 'partial_payment_then_remainder') {
+    const { transactions, metadata } = generateInstallmentTransactions(invoice, type, direction, params);
+    return {
+      id: randomUuid(),
+      type,
+      direction,
+      invoice,
+      transaction: transactions[0], // First installment for display
+      transactions, // All installments
+      metadata,
+    };
+  }
+
+  if (type === 'bank_charges_separate_fee') {
+    const { transactions, metadata } = generateSeparateFeeTransactions(invoice, direction, params);
+    return {
+      id: randomUuid(),
+      type,
+      direction,
+      invoice,
+      transaction: transactions[0], // The payment itself
+      transactions, // Payment and fee line
+      metadata,
+    };
+  }
+
+  if (type === 'duplicate_payment') {
+    const { transactions, metadata } = generateDuplicatePaymentTransactions(invoice, direction, params);
+    return {
+      id: randomUuid(),
+      type,
+      direction,
+      invoice,
+      transaction: transactions[0], // The true match
+      transactions, // True match and duplicate
+      metadata,
+    };
+  }
+
+  const { transaction, metadata } = type === 'third_party_payment'
+    ? generateThirdPartyTransaction(invoice, direction, params)
+    : generateTransaction(invoice, type, direction, params, ourCompany.countryCode, fx);
 
   return {
-    id: uuidv4(),
+    id: randomUuid(),
     type,
     direction,
     invoice,
@@ -310,22 +964,32 @@ function generateTestCase(
   };
 }
 
+// Date of the most recent invoice in a group
+function getLatestInvoiceDate(invoices: Invoice[]): Date {
+  return invoices.reduce((latest, inv) => {
+    const invDate = new Date(inv.date);
+    return invDate > latest ? invDate : latest;
+  }, new Date(invoices[0].date));
+}
+
 // Generate a group payment test case (one transaction for multiple invoices)
 function generateGroupPaymentTestCase(
   direction: TransactionDirection,
   dateRange: { start: Date; end: Date },
   ourCompany: Company,
-  startingSequence: number
+  startingSequence: number,
+  params: TestCaseParams,
+  pool?: CounterpartyPool
 ): { testCase: TestCase; invoicesGenerated: number } {
-  const otherParty = getRandomSupplier();
+  const otherParty = getCounterparty(pool);
 
   // For payables: other party is supplier, we are customer
   // For receivables: we are supplier, other party is customer
   const supplier = direction === 'payables' ? otherParty : ourCompany;
   const customer = direction === 'payables' ? ourCompany : otherParty;
 
-  // Generate 2-3 invoices from the same counterparty
-  const invoiceCount = randomBetween(2, 3);
+  // Generate several invoices (2-3 by default) from the same counterparty
+  const invoiceCount = pickInRange(params.groupSize);
   const invoices: Invoice[] = [];
 
   for (let i = 0; i < invoiceCount; i++) {
@@ -337,13 +1001,8 @@ function generateGroupPaymentTestCase(
   const totalAmount = invoices.reduce((sum, inv) => sum + inv.total, 0);
   const amountSign = direction === 'payables' ? -1 : 1;
 
-  // Find the latest invoice date and add a few days for the transaction
-  const latestInvoiceDate = invoices.reduce((latest, inv) => {
-    const invDate = new Date(inv.date);
-    return invDate > latest ? invDate : latest;
-  }, new Date(invoices[0].date));
-
-  const transactionDate = addDays(latestInvoiceDate, randomBetween(1, 7));
+  // Pay a few days after the latest invoice
+  const transactionDate = addDays(getLatestInvoiceDate(invoices), pickInRange(params.dayOffset));
 
   // Create description with all invoice numbers
   const invoiceNumbers = invoices.map(inv => inv.number).join(', ');
@@ -355,7 +1014,9 @@ function generateGroupPaymentTestCase(
 
   const transaction: BankTransaction = {
     date: formatDate(transactionDate),
+    value_date: formatDate(transactionDate),
     counterparty,
+    counterparty_iban: counterpartyCompany.iban,
     description,
     amount_eur: parseFloat((amountSign * totalAmount).toFixed(2)),
   };
@@ -371,7 +1032,7 @@ function generateGroupPaymentTestCase(
 
   return {
     testCase: {
-      id: uuidv4(),
+      id: randomUuid(),
       type: 'group_payment',
       direction,
       invoice: invoices[0], // Primary invoice for display
@@ -383,21 +1044,612 @@ function generateGroupPaymentTestCase(
   };
 }
 
-// Generate CSV content from transactions
-function generateCSV(testCases: TestCase[]): string {
-  const header = 'date;counterparty;counterparty_iban;description;amount_eur';
-  const rows = testCases.map((tc) => {
-    const { date, counterparty, counterparty_iban, description, amount_eur } = tc.transaction;
-    return `${date};${counterparty};${counterparty_iban};${description};${amount_eur}`;
-  });
+// Generate a PSP payout: customers pay invoices by card or wallet through a payment service provider,
+// which pays out the collected charges in one batch to our account, net of its fee per charge
+function generatePspPayoutTestCase(
+  dateRange: { start: Date; end: Date },
+  ourCompany: Company,
+  startingSequence: number,
+  params: TestCaseParams,
+  pool?: CounterpartyPool
+): { testCase: TestCase; invoicesGenerated: number } {
+  const provider = faker.helpers.arrayElement(PAYMENT_SERVICE_PROVIDERS);
 
-  // Sort by date
-  rows.sort((a, b) => {
-    const dateA = a.split(';')[0];
-    const dateB = b.split(';')[0];
-    return dateA.localeCompare(dateB);
-  });
+  // Payouts are rolling, so the invoices they cover fall within about a week
+  const daysDiff = Math.floor(
+    (dateRange.end.getTime() - dateRange.start.getTime()) / (1000 * 60 * 60 * 24)
+  );
+  const windowStart = addDays(dateRange.start, randomBetween(0, daysDiff));
+  const windowEnd = addDays(windowStart, 7);
+  const window = { start: windowStart, end: windowEnd < dateRange.end ? windowEnd : dateRange.end };
+
+  // Every charge comes from its own customer (a pool may repeat some of them)
+  const invoiceCount = pickInRange(params.groupSize);
+  const invoices: Invoice[] = [];
+  const charges: PspCharge[] = [];
+
+  for (let i = 0; i < invoiceCount; i++) {
+    const customer = getCounterparty(pool);
+    const invoice = generateInvoice(window, ourCompany, customer, startingSequence + i, 'receivables');
+    const feeAmount = calculatePspFee(provider, invoice.total);
+    invoices.push(invoice);
+    charges.push({
+      chargeId: generatePspChargeId(provider),
+      date: formatDate(addDays(new Date(invoice.date), randomBetween(0, 3))),
+      invoiceNumber: invoice.number,
+      customer: customer.name,
+      grossAmount: invoice.total,
+      feeAmount,
+      netAmount: parseFloat((invoice.total - feeAmount).toFixed(2)),
+    });
+  }
+
+  // Providers pay out on business days, a few days after the latest charge
+  const latestChargeDate = charges.reduce(
+    (latest, charge) => (charge.date > latest ? charge.date : latest),
+    charges[0].date
+  );
+  const payoutDate = rollToBankBusinessDay(
+    formatDate(addDays(new Date(latestChargeDate), pickInRange(params.dayOffset))),
+    ourCompany.countryCode
+  );
+
+  const { payoutId, description } = generatePspPayoutReference(provider);
+  const sum = (amounts: number[]) => parseFloat(amounts.reduce((total, amount) => total + amount, 0).toFixed(2));
+  const pspPayout: PspPayout = {
+    provider,
+    payoutId,
+    date: payoutDate,
+    currency: 'EUR',
+    charges,
+    grossAmount: sum(charges.map((charge) => charge.grossAmount)),
+    feeAmount: sum(charges.map((charge) => charge.feeAmount)),
+    netAmount: sum(charges.map((charge) => charge.netAmount)),
+  };
+
+  const account = getPspAccount(provider);
+  const transaction: BankTransaction = {
+    date: payoutDate,
+    value_date: payoutDate,
+    counterparty: account.name,
+    counterparty_iban: account.iban,
+    description,
+    amount_eur: pspPayout.netAmount,
+  };
+
+  const metadata: TestCase['metadata'] = {
+    originalAmount: pspPayout.grossAmount,
+    adjustedAmount: pspPayout.netAmount,
+    adjustmentReason: `${provider} payout ${payoutId} covering ${invoiceCount} invoices, less ${pspPayout.feeAmount.toFixed(2)} provider fees`,
+    matchingFields: ['settlement_report (payout id)', 'date_proximity'],
+    mismatchedFields: [
+      'counterparty (payment provider instead of the customers)',
+      'amount (net of provider fees)',
+      'description (payout reference, no invoice numbers)',
+    ],
+    groupedInvoiceCount: invoiceCount,
+    providerFees: pspPayout.feeAmount,
+  };
+
+  return {
+    testCase: {
+      id: randomUuid(),
+      type: 'psp_payout',
+      direction: 'receivables',
+      invoice: invoices[0], // Primary invoice for display
+      invoices, // Every invoice paid out
+      transaction,
+      pspPayout,
+      metadata,
+    },
+    invoicesGenerated: invoiceCount,
+  };
+}
+
+// Mangle invoice numbers in transaction descriptions and record each mutation in the metadata
+function applyReferenceCorruption(
+  testCase: TestCase,
+  percent: number,
+  kinds: ReferenceMutationKind[]
+): void {
+  const invoiceNumbers = (testCase.invoices ?? [testCase.invoice]).map((inv) => inv.number);
+
+  for (const transaction of getTestCaseTransactions(testCase)) {
+    for (const number of invoiceNumbers) {
+      if (!transaction.description.includes(number) || faker.number.float({ max: 100 }) >= percent) {
+        continue;
+      }
+      const corruption = corruptReference(number, kinds);
+      if (!corruption) {
+        continue;
+      }
+      transaction.description = transaction.description.replace(number, corruption.mutated);
+      testCase.metadata.referenceMutations = [
+        ...(testCase.metadata.referenceMutations ?? []),
+        { kind: corruption.kind, original: number, mutated: corruption.mutated },
+      ];
+      testCase.metadata.mismatchedFields.push(`invoice_number (${corruption.kind}: ${corruption.mutated})`);
+    }
+  }
+}
+
+// Generate unrelated bank activity so that noise makes up the given share of all statement rows
+function generateNoiseTransactions(
+  matchedCount: number,
+  noisePercent: number,
+  dateRange: { start: Date; end: Date },
+  ourCompany: Company
+): NoiseTransaction[] {
+  if (noisePercent <= 0) {
+    return [];
+  }
+
+  const noiseCount = Math.round((matchedCount * noisePercent) / (100 - noisePercent));
+  const daysDiff = Math.floor(
+    (dateRange.end.getTime() - dateRange.start.getTime()) / (1000 * 60 * 60 * 24)
+  );
+  const noiseTransactions: NoiseTransaction[] = [];
+
+  for (let i = 0; i < noiseCount; i++) {
+    const category = getRandomNoiseCategory();
+    const date = formatDate(addDays(dateRange.start, randomBetween(0, daysDiff)));
+    noiseTransactions.push({
+      id: randomUuid(),
+      category,
+      transaction: generateNoiseTransaction(category, date, ourCompany),
+      expectedMatch: 'no_matching_invoice',
+    });
+  }
+
+  return noiseTransactions;
+}
+
+// Generate a credit note test case (invoice + credit note, refunded or netted against the payment)
+function generateCreditNoteTestCase(
+  type: TestCaseType,
+  direction: TransactionDirection,
+  dateRange: { start: Date; end: Date },
+  ourCompany: Company,
+  startingSequence: number,
+  params: TestCaseParams,
+  pool?: CounterpartyPool
+): { testCase: TestCase; invoicesGenerated: number } {
+  const otherParty = getCounterparty(pool);
+
+  // For payables: other party is supplier, we are customer
+  // For receivables: we are supplier, other party is customer
+  const supplier = direction === 'payables' ? otherParty : ourCompany;
+  const customer = direction === 'payables' ? ourCompany : otherParty;
+
+  const invoice = generateInvoice(dateRange, supplier, customer, startingSequence, direction);
+  const creditNote = generateCreditNote(invoice, startingSequence + 1);
+  const creditAmount = Math.abs(creditNote.total);
+
+  const counterpartyCompany = direction === 'payables' ? supplier : customer;
+  const amountSign = direction === 'payables' ? -1 : 1;
+  const transactionDate = addDays(new Date(creditNote.date), pickInRange(params.dayOffset));
+
+  let transaction: BankTransaction;
+  let metadata: TestCase['metadata'];
+
+  if (type === 'credit_note_refund') {
+    // Refunds move money the other way: the supplier pays us back, or we pay the customer back
+    transaction = {
+      date: formatDate(transactionDate),
+      value_date: formatDate(transactionDate),
+      counterparty: getRandomNameVariation(counterpartyCompany),
+      counterparty_iban: counterpartyCompany.iban,
+      description: `Refund ${creditNote.number} / ${invoice.number}`,
+      amount_eur: -amountSign * creditAmount,
+    };
+    metadata = {
+      originalAmount: creditAmount,
+      adjustedAmount: creditAmount,
+      adjustmentReason: `Refund of credit note ${creditNote.number} for invoice ${invoice.number}`,
+      creditNoteAmount: creditAmount,
+      matchingFields: ['counterparty', 'amount (credit note total)', 'credit_note_number', 'date_proximity'],
+      mismatchedFields: ['direction (refund flows opposite to the invoice)'],
+    };
+  } else {
+    const netAmount = parseFloat((invoice.total - creditAmount).toFixed(2));
+    transaction = {
+      date: formatDate(transactionDate),
+      value_date: formatDate(transactionDate),
+      counterparty: getRandomNameVariation(counterpartyCompany),
+      counterparty_iban: counterpartyCompany.iban,
+      description: `${invoice.number} less ${creditNote.number}`,
+      amount_eur: amountSign * netAmount,
+    };
+    metadata = {
+      originalAmount: invoice.total,
+      adjustedAmount: netAmount,
+      adjustmentReason: `Invoice ${invoice.number} netted with credit note ${creditNote.number}`,
+      creditNoteAmount: creditAmount,
+      matchingFields: ['counterparty', 'invoice_number', 'credit_note_number', 'net_amount (invoice - credit note)'],
+      mismatchedFields: ['amount (credit note deducted)'],
+    };
+  }
+
+  return {
+    testCase: {
+      id: randomUuid(),
+      type,
+      direction,
+      invoice: type === 'credit_note_refund' ? creditNote : invoice, // Document the transaction settles
+      invoices: [invoice, creditNote],
+      transaction,
+      metadata,
+    },
+    invoicesGenerated: 2,
+  };
+}
+
+// Invoice for the interest and fees of a late payment; neither is subject to VAT, as they are damages, not supplies
+function generateLateFeeInvoice(
+  original: Invoice,
+  lateFees: LateFeeBreakdown,
+  invoiceDate: Date,
+  invoiceSequence: number
+): Invoice {
+  const items: InvoiceItem[] = [
+    {
+      name: `Default interest ${lateFees.interestRate}% p.a. for ${lateFees.daysOverdue} days on ${original.total.toFixed(2)}`,
+      quantity: 1,
+      price: lateFees.interestAmount,
+      tax: 0,
+    },
+    { name: 'Dunning fee', quantity: 1, price: lateFees.dunningFee, tax: 0 },
+  ];
+  if (lateFees.flatCompensation > 0) {
+    items.push({ name: 'Flat-rate compensation (§ 288(5) BGB)', quantity: 1, price: lateFees.flatCompensation, tax: 0 });
+  }
+  const { subtotal, taxTotal, total, taxBreakdown } = calculateInvoiceTotals(items);
+  const netDays = 14;
+
+  return {
+    id: randomUuid(),
+    number: generateInvoiceNumber(original.supplier, invoiceDate.getFullYear(), invoiceSequence, original.direction),
+    date: formatDate(invoiceDate),
+    dueDate: formatDate(addDays(invoiceDate, netDays)),
+    supplier: original.supplier,
+    customer: original.customer,
+    items,
+    subtotal,
+    taxTotal,
+    total,
+    currency: original.currency,
+    note: `Late payment charges for invoice ${original.number} (due ${original.dueDate}). Default interest and dunning fees are not subject to VAT.`,
+    direction: original.direction,
+    documentType: 'invoice',
+    originalInvoiceNumber: original.number,
+    vatTreatment: original.vatTreatment,
+    taxBreakdown,
+    paymentTerms: { netDays, text: `Net ${netDays} days` },
+  };
+}
+
+// Generate a late payment after a dunning letter; the payment either includes the interest and fees,
+// or pays the invoice total and a follow-up invoice for the charges is paid separately
+function generateLateFeeTestCase(
+  direction: TransactionDirection,
+  dateRange: { start: Date; end: Date },
+  ourCompany: Company,
+  startingSequence: number,
+  params: TestCaseParams,
+  pool?: CounterpartyPool
+): { testCase: TestCase; invoicesGenerated: number } {
+  const otherParty = getCounterparty(pool);
+
+  // For payables: other party is supplier, we are customer
+  // For receivables: we are supplier, other party is customer
+  const supplier = direction === 'payables' ? otherParty : ourCompany;
+  const customer = direction === 'payables' ? ourCompany : otherParty;
+
+  const invoice = generateInvoice(dateRange, supplier, customer, startingSequence, direction);
+  const counterpartyCompany = direction === 'payables' ? supplier : customer;
+  const amountSign = direction === 'payables' ? -1 : 1;
+
+  // Payments are valued on a business day, so interest runs exactly to the value date on the statement. The
+  // dunning letter goes out strictly after the due date and strictly before the payment, which is why the
+  // payment is at least 2 days late; rolling to a business day only moves it later.
+  const overdueDays = Math.max(2, pickInRange(params.dayOffset));
+  const paymentDate = rollToBankBusinessDay(formatDate(addDays(new Date(invoice.dueDate), overdueDays)), ourCompany.countryCode);
+  const letterDate = formatDate(addDays(new Date(invoice.dueDate), Math.max(1, Math.min(randomBetween(7, 14), overdueDays - 1))));
+
+  const charges = pickDunningCharges();
+  const letterInterest = calculateDefaultInterest(invoice.total, invoice.dueDate, letterDate);
+  const interest = calculateDefaultInterest(invoice.total, invoice.dueDate, paymentDate);
+  const lateFees: LateFeeBreakdown = {
+    ...interest,
+    ...charges,
+    total: parseFloat((interest.interestAmount + charges.dunningFee + charges.flatCompensation).toFixed(2)),
+  };
+  if (!isBaseRatePublished(invoice.dueDate)) {
+    lateFees.baseRateCarriedForward = true;
+  }
+
+  const dunningLetter: DunningLetter = {
+    id: randomUuid(),
+    date: letterDate,
+    supplier,
+    customer,
+    direction,
+    invoiceNumber: invoice.number,
+    invoiceDate: invoice.date,
+    dueDate: invoice.dueDate,
+    currency: invoice.currency,
+    outstandingAmount: invoice.total,
+    daysOverdue: letterInterest.daysOverdue,
+    interestRate: letterInterest.interestRate,
+    interestAmount: letterInterest.interestAmount,
+    dunningFee: charges.dunningFee,
+    flatCompensation: charges.flatCompensation,
+    totalDue: parseFloat(
+      (invoice.total + letterInterest.interestAmount + charges.dunningFee + charges.flatCompensation).toFixed(2)
+    ),
+    payBy: formatDate(addDays(new Date(letterDate), randomBetween(7, 10))),
+  };
+
+  const metadata: TestCase['metadata'] = {
+    originalAmount: invoice.total,
+    adjustedAmount: parseFloat((invoice.total + lateFees.total).toFixed(2)),
+    lateFees,
+    matchingFields: [],
+    mismatchedFields: [],
+  };
+
+  const payment: BankTransaction = {
+    date: paymentDate,
+    value_date: paymentDate,
+    counterparty: getRandomNameVariation(counterpartyCompany),
+    counterparty_iban: counterpartyCompany.iban,
+    description: `${invoice.number} Payment`,
+    amount_eur: amountSign * invoice.total,
+  };
+
+  if (faker.datatype.boolean()) {
+    payment.description = `${invoice.number} incl. dunning fee and interest`;
+    payment.amount_eur = amountSign * metadata.adjustedAmount;
+    metadata.adjustmentReason = `Paid ${lateFees.daysOverdue} days after the due date with ${lateFees.total.toFixed(2)} interest and fees from the dunning letter of ${letterDate}`;
+    metadata.matchingFields = ['counterparty', 'invoice_number'];
+    metadata.mismatchedFields = [
+      `date (${lateFees.daysOverdue} days overdue)`,
+      `amount (interest and fees of ${lateFees.total.toFixed(2)} added)`,
+    ];
 
+    return {
+      testCase: {
+        id: randomUuid(),
+        type: 'late_payment_with_fees',
+        direction,
+        invoice,
+        transaction: payment,
+        dunningLetter,
+        metadata,
+      },
+      invoicesGenerated: 1,
+    };
+  }
+
+  // The supplier bills interest up to the payment date once the payment has arrived
+  const feeInvoiceDate = addDays(new Date(paymentDate), randomBetween(3, 10));
+  const feeInvoice = generateLateFeeInvoice(invoice, lateFees, feeInvoiceDate, startingSequence + 1);
+  const feePaymentDate = formatDate(addDays(new Date(feeInvoice.date), randomBetween(3, 14)));
+  const feePayment: BankTransaction = {
+    date: feePaymentDate,
+    value_date: feePaymentDate,
+    counterparty: getRandomNameVariation(counterpartyCompany),
+    counterparty_iban: counterpartyCompany.iban,
+    description: `${feeInvoice.number} Payment`,
+    amount_eur: amountSign * feeInvoice.total,
+  };
+  metadata.adjustmentReason = `Paid ${lateFees.daysOverdue} days after the due date; interest and fees of ${lateFees.total.toFixed(2)} billed on ${feeInvoice.number}`;
+  metadata.matchingFields = ['counterparty', 'amount', 'invoice_number'];
+  metadata.mismatchedFields = [`date (${lateFees.daysOverdue} days overdue)`, `late fee invoice ${feeInvoice.number} paid separately`];
+
+  return {
+    testCase: {
+      id: randomUuid(),
+      type: 'late_payment_with_fees',
+      direction,
+      invoice,
+      invoices: [invoice, feeInvoice],
+      transaction: payment, // Payment of the original invoice
+      transactions: [payment, feePayment],
+      dunningLetter,
+      metadata,
+    },
+    invoicesGenerated: 2,
+  };
+}
+
+// Generate an ambiguous case: several look-alike invoices from one counterparty, only one of them paid
+function generateAmbiguousTestCase(
+  direction: TransactionDirection,
+  dateRange: { start: Date; end: Date },
+  ourCompany: Company,
+  startingSequence: number,
+  params: TestCaseParams,
+  pool?: CounterpartyPool
+): { testCase: TestCase; invoicesGenerated: number } {
+  const otherParty = getCounterparty(pool);
+
+  // For payables: other party is supplier, we are customer
+  // For receivables: we are supplier, other party is customer
+  const supplier = direction === 'payables' ? otherParty : ourCompany;
+  const customer = direction === 'payables' ? ourCompany : otherParty;
+
+  const invoiceCount = pickInRange(params.groupSize);
+  const template = generateInvoice(dateRange, supplier, customer, startingSequence, direction);
+  const invoices: Invoice[] = [template];
+
+  // Look-alikes reuse the template's items; some are identical, others differ by a fraction of a percent
+  for (let i = 1; i < invoiceCount; i++) {
+    const invoice = generateInvoice(dateRange, supplier, customer, startingSequence + i, direction);
+    const items = template.items.map((item) => ({ ...item }));
+    if (faker.datatype.boolean()) {
+      const tweaked = faker.helpers.arrayElement(items);
+      tweaked.price = parseFloat((tweaked.price * randomFloat(0.995, 1.005, 4)).toFixed(2));
+    }
+    invoices.push({ ...invoice, items, ...calculateInvoiceTotals(items) });
+  }
+
+  const paidInvoice = faker.helpers.arrayElement(invoices);
+  const amountSign = direction === 'payables' ? -1 : 1;
+
+  // Pay after the latest invoice so every candidate is plausible by date
+  const counterpartyCompany = direction === 'payables' ? supplier : customer;
+  const date = formatDate(addDays(getLatestInvoiceDate(invoices), pickInRange(params.dayOffset)));
+  const transaction: BankTransaction = {
+    date,
+    value_date: date,
+    counterparty: getRandomNameVariation(counterpartyCompany),
+    counterparty_iban: counterpartyCompany.iban,
+    description: getRandomGenericDescription(),
+    amount_eur: amountSign * paidInvoice.total,
+  };
+
+  const metadata: TestCase['metadata'] = {
+    originalAmount: paidInvoice.total,
+    adjustedAmount: paidInvoice.total,
+    adjustmentReason: `${invoiceCount} look-alike invoices from the same counterparty; only ${paidInvoice.number} is paid`,
+    matchingFields: ['counterparty', 'amount'],
+    mismatchedFields: ['description (no invoice number)', 'ambiguous (several invoices with similar totals)'],
+    plausibleInvoiceNumbers: invoices.map((inv) => inv.number),
+    correctInvoiceNumber: paidInvoice.number,
+  };
+
+  return {
+    testCase: {
+      id: randomUuid(),
+      type: 'ambiguous_lookalike_invoices',
+      direction,
+      invoice: paidInvoice, // The invoice that was actually paid
+      invoices, // All plausible candidates
+      transaction,
+      metadata,
+    },
+    invoicesGenerated: invoiceCount,
+  };
+}
+
+// Fields each profile carries that an embedded XML can disagree on; MINIMUM has no due date or payment account
+const FACTUR_X_MISMATCH_FIELDS: Record<FacturXProfile, FacturXMismatchField[]> = {
+  MINIMUM: ['invoice_number', 'issue_date', 'total'],
+  BASIC: ['invoice_number', 'issue_date', 'due_date', 'total', 'iban'],
+  EN16931: ['invoice_number', 'issue_date', 'due_date', 'total', 'iban'],
+};
+
+// Pick a field of the invoice and the different value its embedded XML gets
+function generateFacturXMismatch(invoice: Invoice, profile: FacturXProfile): FacturXMismatch {
+  // Credit notes carry no payment account
+  const fields = FACTUR_X_MISMATCH_FIELDS[profile].filter(
+    (field) => field !== 'iban' || invoice.documentType !== 'credit_note'
+  );
+  const field = faker.helpers.arrayElement(fields);
+  const direction = faker.datatype.boolean() ? 1 : -1;
+
+  switch (field) {
+    case 'invoice_number': {
+      const corruption = corruptReference(invoice.number, REFERENCE_MUTATION_KINDS);
+      return { field, visualValue: invoice.number, xmlValue: corruption?.mutated ?? `${invoice.number}1` };
+    }
+    case 'issue_date':
+      return { field, visualValue: invoice.date, xmlValue: formatDate(addDays(new Date(invoice.date), direction * randomBetween(1, 5))) };
+    case 'due_date':
+      return {
+        field,
+        visualValue: invoice.dueDate,
+        xmlValue: formatDate(addDays(new Date(invoice.dueDate), direction * randomBetween(1, 14))),
+      };
+    case 'total': {
+      const deviationPercent = direction * randomFloat(0.5, 10);
+      return {
+        field,
+        visualValue: invoice.total.toFixed(2),
+        xmlValue: (invoice.total * (1 + deviationPercent / 100)).toFixed(2),
+      };
+    }
+    case 'iban':
+      return {
+        field,
+        visualValue: invoice.supplier.iban,
+        xmlValue: faker.finance.iban({ countryCode: invoice.supplier.iban.slice(0, 2) }),
+      };
+  }
+}
+
+// Master data of every invoice party (vendors for payables, customers for receivables), in order of appearance
+function collectMasterData(testCases: TestCase[], direction: TransactionDirection): CounterpartyMasterData[] {
+  const role = direction === 'payables' ? 'vendor' : 'customer';
+  const byIban = new Map<string, CounterpartyMasterData>();
+
+  for (const testCase of testCases) {
+    for (const invoice of testCase.invoices ?? [testCase.invoice]) {
+      const party: Company & { nameVariations?: string[] } = direction === 'payables' ? invoice.supplier : invoice.customer;
+      const existing = byIban.get(party.iban);
+      if (existing) {
+        existing.invoiceCount++;
+        continue;
+      }
+      byIban.set(party.iban, {
+        id: `${role === 'vendor' ? 'V' : 'C'}${(byIban.size + 1).toString().padStart(4, '0')}`,
+        role,
+        name: party.name,
+        iban: party.iban,
+        vatId: party.vatId,
+        countryCode: party.countryCode,
+        nameVariations: party.nameVariations ?? [],
+        invoiceCount: 1,
+      });
+    }
+  }
+
+  return [...byIban.values()];
+}
+
+// Generate master data CSV content; name variations are separated by '|'
+function generateMasterDataCSV(counterparties: CounterpartyMasterData[]): string {
+  const header = 'id;role;name;iban;vat_id;country;invoice_count;name_variations';
+  const rows = counterparties.map((entry) =>
+    formatCsvRow([
+      entry.id,
+      entry.role,
+      entry.name,
+      entry.iban,
+      entry.vatId,
+      entry.countryCode,
+      entry.invoiceCount,
+      entry.nameVariations.join('|'),
+    ])
+  );
+  return [header, ...rows].join('\n');
+}
+
+// Generate the settlement report CSV of all PSP payouts, one row per charge
+function generateSettlementReportCSV(testCases: TestCase[]): string {
+  const header = 'provider;payout_id;payout_date;charge_id;charge_date;invoice_number;customer;gross;fee;net;currency';
+  const rows = testCases.flatMap((testCase) => {
+    const payout = testCase.pspPayout;
+    if (!payout) {
+      return [];
+    }
+    return payout.charges.map((charge) =>
+      formatCsvRow([
+        payout.provider,
+        payout.payoutId,
+        payout.date,
+        charge.chargeId,
+        charge.date,
+        charge.invoiceNumber,
+        charge.customer,
+        charge.grossAmount,
+        charge.feeAmount,
+        charge.netAmount,
+        payout.currency,
+      ])
+    );
+  });
   return [header, ...rows].join('\n');
 }
 
@@ -406,8 +1658,13 @@ export function generateTestSuite(
   configs: TestCaseConfig[],
   direction: TransactionDirection,
   dateRange: { start: string; end: string },
-  companyOverrides?: Partial<Company>
+  companyOverrides?: Partial<Company>,
+  options: GenerationOptions = {}
 ): GeneratedTestSuite {
+  // Seed before anything else draws a random value; without a seed, pick one so the suite can be rebuilt later
+  const seed = options.seed ?? Math.floor(Math.random() * 0x100000000);
+  faker.seed(seed);
+
   const ourCompany: Company = {
     ...DEFAULT_COMPANY,
     ...companyOverrides,
@@ -421,7 +1678,13 @@ export function generateTestSuite(
   const testCases: TestCase[] = [];
   let invoiceSequence = randomBetween(100, 999);
 
+  // Recurring counterparties; without a pool every test case gets a new one
+  const pool = options.counterpartyPool
+    ? createCounterpartyPool(options.counterpartyPool.size, options.counterpartyPool.zipfExponent ?? 1)
+    : undefined;
+
   for (const config of configs) {
+    const params = resolveTestCaseParams(config.type, config.params);
     for (let i = 0; i < config.quantity; i++) {
       if (config.type === 'group_payment') {
         // Group payments generate multiple invoices per test case
@@ -429,7 +1692,56 @@ export function generateTestSuite(
           direction,
           parsedDateRange,
           ourCompany,
-          invoiceSequence
+          invoiceSequence,
+          params,
+          pool
+        );
+        testCases.push(testCase);
+        invoiceSequence += invoicesGenerated;
+      } else if (config.type === 'ambiguous_lookalike_invoices') {
+        const { testCase, invoicesGenerated } = generateAmbiguousTestCase(
+          direction,
+          parsedDateRange,
+          ourCompany,
+          invoiceSequence,
+          params,
+          pool
+        );
+        testCases.push(testCase);
+        invoiceSequence += invoicesGenerated;
+      } else if (config.type === 'psp_payout') {
+        if (direction !== 'receivables') {
+          throw new Error('PSP payouts are only available for receivables');
+        }
+        const { testCase, invoicesGenerated } = generatePspPayoutTestCase(
+          parsedDateRange,
+          ourCompany,
+          invoiceSequence,
+          params,
+          pool
+        );
+        testCases.push(testCase);
+        invoiceSequence += invoicesGenerated;
+      } else if (config.type === 'late_payment_with_fees') {
+        const { testCase, invoicesGenerated } = generateLateFeeTestCase(
+          direction,
+          parsedDateRange,
+          ourCompany,
+          invoiceSequence,
+          params,
+          pool
+        );
+        testCases.push(testCase);
+        invoiceSequence += invoicesGenerated;
+      } else if (config.type === 'credit_note_refund' || config.type === 'credit_note_netting') {
+        const { testCase, invoicesGenerated } = generateCreditNoteTestCase(
+          config.type,
+          direction,
+          parsedDateRange,
+          ourCompany,
+          invoiceSequence,
+          params,
+          pool
         );
         testCases.push(testCase);
         invoiceSequence += invoicesGenerated;
@@ -439,21 +1751,92 @@ export function generateTestSuite(
           direction,
           parsedDateRange,
           ourCompany,
-          invoiceSequence++
+          invoiceSequence++,
+          params,
+          pool
         );
         testCases.push(testCase);
       }
     }
   }
 
-  const csvContent = generateCSV(testCases);
+  // Top up with open invoices until they make up the requested share of all invoices
+  const openInvoicePercent = options.openInvoicePercent ?? 0;
+  if (openInvoicePercent > 0) {
+    const invoiceCount = testCases.reduce((count, tc) => count + (tc.invoices?.length ?? 1), 0);
+    const openCount = Math.round((invoiceCount * openInvoicePercent) / (100 - openInvoicePercent));
+    for (let i = 0; i < openCount; i++) {
+      testCases.push(
+        generateTestCase(
+          'open_invoice',
+          direction,
+          parsedDateRange,
+          ourCompany,
+          invoiceSequence++,
+          resolveTestCaseParams('open_invoice'),
+          pool
+        )
+      );
+    }
+  }
+
+  const corruption = options.referenceCorruption;
+  if (corruption && corruption.percent > 0) {
+    for (const testCase of testCases) {
+      applyReferenceCorruption(testCase, corruption.percent, corruption.kinds ?? REFERENCE_MUTATION_KINDS);
+    }
+  }
+
+  const noiseTransactions = generateNoiseTransactions(
+    testCases.reduce((count, tc) => count + getTestCaseTransactions(tc).length, 0),
+    options.noisePercent ?? 0,
+    parsedDateRange,
+    ourCompany
+  );
+
+  const statementRows = getStatementRows(testCases, noiseTransactions);
+
+  // Book every statement row on a business day of our bank
+  for (const { transaction, kind } of statementRows) {
+    applyBankingCalendar(transaction, kind, ourCompany.countryCode);
+  }
+
+  // Word every statement row the way the selected bank type does
+  const bankTextProfile = options.bankTextProfile ?? 'plain';
+  if (bankTextProfile !== 'plain') {
+    for (const { transaction, kind, category } of statementRows) {
+      applyBankTextProfile(transaction, bankTextProfile, kind, category);
+    }
+  }
+
+  // Make every invoice PDF a Factur-X hybrid; some embedded XML deliberately disagrees with the visual invoice
+  if (options.facturX) {
+    const { profile, mismatchPercent = 0 } = options.facturX;
+    for (const invoice of new Set(testCases.flatMap((tc) => tc.invoices ?? [tc.invoice]))) {
+      invoice.facturX =
+        faker.number.float({ max: 100 }) < mismatchPercent
+          ? { profile, mismatch: generateFacturXMismatch(invoice, profile) }
+          : { profile };
+    }
+  }
+
+  const csvDialect = resolveCsvDialect(options.csvDialect);
+  const csvContent = generateBankTransactionsCsv(statementRows.map((row) => row.transaction), csvDialect);
+  const counterparties = collectMasterData(testCases, direction);
 
   return {
-    id: uuidv4(),
+    id: randomUuid(),
     createdAt: new Date().toISOString(),
     direction,
+    seed,
+    generatorVersion: GENERATOR_VERSION,
     cases: testCases,
+    noiseTransactions,
     csvContent,
+    csvDialect,
+    counterparties,
+    masterDataCsv: generateMasterDataCSV(counterparties),
+    settlementReportCsv: generateSettlementReportCSV(testCases),
   };
 }
 
@@ -494,7 +1877,9 @@ export function invoiceToPDFData(invoice: Invoice): {
   };
   note: string;
 } {
-  const invoiceNumber = parseInt(invoice.number.replace(/\D/g, ''), 10);
+  // The PDF format only takes numeric invoice numbers; the full number is kept in the QR data
+  const digits = invoice.number.replace(/\D/g, '');
+  const invoiceNumber = digits ? parseInt(digits, 10) : 0;
 
   return {
     company: {
@@ -0,0 +1,168 @@
+import { GeneratedTestSuite } from './types';
+import { transliterate } from './charset';
+import {
+  StatementRow,
+  getEndToEndId,
+  getEntryReference,
+  getOpeningBalance,
+  getSortedStatementRows,
+  getStatementAccountHolder,
+  getStatementReference,
+  sumAmounts,
+} from './statement';
+
+// Field content is written in lines of at most 65 characters; :86: may span at most 6 lines
+const MAX_LINE_LENGTH = 65;
+const MAX_INFORMATION_LINES = 6;
+
+// Sub-field lengths of the German structured :86: field (DFÜ-Abkommen, Anlage 3)
+const MAX_SUBFIELD_LENGTH = 27;
+const MAX_PURPOSE_SUBFIELDS = 10;
+
+// Reference sub-fields of :61: are 16x
+const MAX_REFERENCE_LENGTH = 16;
+
+// German business transaction code (GVC), booking text and SWIFT transaction type of a statement line
+interface BookingCode {
+  gvc: string;
+  bookingText: string;
+  swiftCode: string;
+}
+
+function getBookingCode(row: StatementRow): BookingCode {
+  if (row.kind === 'fee') {
+    return { gvc: '805', bookingText: 'ENTGELTABSCHLUSS', swiftCode: 'NCHG' };
+  }
+  if (row.kind === 'card') {
+    return { gvc: '106', bookingText: 'KARTENZAHLUNG', swiftCode: 'NMSC' };
+  }
+  if (row.transaction.amount_eur >= 0) {
+    return { gvc: '166', bookingText: 'SEPA-GUTSCHRIFT', swiftCode: 'NTRF' };
+  }
+  if (row.transaction.description.startsWith('SEPA-LASTSCHRIFT')) {
+    return { gvc: '105', bookingText: 'SEPA-LASTSCHRIFT', swiftCode: 'NDDT' };
+  }
+  return { gvc: '116', bookingText: 'SEPA-UEBERWEISUNG', swiftCode: 'NTRF' };
+}
+
+// Reduce text to the SWIFT x character set; '?' is left out too, as it separates the :86: sub-fields
+function toSwiftCharacters(value: string): string {
+  return transliterate(value)
+    .replace(/&/g, '+')
+    .replace(/[^A-Za-z0-9/\-:().,'+ ]/g, ' ');
+}
+
+function chunk(value: string, length: number): string[] {
+  const chunks: string[] = [];
+  for (let i = 0; i < value.length; i += length) {
+    chunks.push(value.slice(i, i + length));
+  }
+  return chunks;
+}
+
+// Whether a line break before position `cut` would split a ?NN sub-field tag; text never contains '?' itself
+function splitsSubfieldTag(value: string, cut: number): boolean {
+  return value[cut - 1] === '?' || value[cut - 2] === '?';
+}
+
+// Break a field into lines; a continuation line may not start with ':' or '-', which would read as a new
+// field or the end of the statement, and a ?NN sub-field tag stays on one line so parsers find it
+function wrapField(value: string): string[] {
+  const lines: string[] = [];
+  let rest = value;
+  while (rest.length > MAX_LINE_LENGTH) {
+    let cut = MAX_LINE_LENGTH;
+    while (cut > 1 && (rest[cut] === ':' || rest[cut] === '-' || splitsSubfieldTag(rest, cut))) {
+      cut--;
+    }
+    lines.push(rest.slice(0, cut));
+    rest = rest.slice(cut);
+  }
+  lines.push(rest);
+  return lines;
+}
+
+// YYMMDD from an ISO date
+function formatDate(date: string): string {
+  return `${date.slice(2, 4)}${date.slice(5, 7)}${date.slice(8, 10)}`;
+}
+
+function formatAmount(value: number): string {
+  return Math.abs(value).toFixed(2).replace('.', ',');
+}
+
+function balance(tag: '60F' | '62F', value: number, date: string): string {
+  return `:${tag}:${value >= 0 ? 'C' : 'D'}${formatDate(date)}EUR${formatAmount(value)}`;
+}
+
+// :61: statement line: value date, booking date, debit/credit mark, amount, transaction type, references
+function statementLine(row: StatementRow, code: BookingCode, bankReference: string): string {
+  const { transaction } = row;
+  const endToEndId = getEndToEndId(row);
+  const customerReference =
+    endToEndId && endToEndId !== 'NOTPROVIDED' && endToEndId.length <= MAX_REFERENCE_LENGTH ? endToEndId : 'NONREF';
+  return [
+    ':61:',
+    formatDate(transaction.value_date),
+    transaction.date.slice(5, 7) + transaction.date.slice(8, 10),
+    transaction.amount_eur >= 0 ? 'C' : 'D',
+    formatAmount(transaction.amount_eur),
+    code.swiftCode,
+    customerReference,
+    `//${bankReference}`,
+  ].join('');
+}
+
+// :86: information to account owner in the German structured format: GVC, ?00 booking text, ?20-?29 purpose,
+// ?31 counterparty IBAN and ?32/?33 counterparty name. Purpose sub-fields that do not fit the 6 lines are dropped.
+function informationToAccountOwner(row: StatementRow, code: BookingCode): string[] {
+  const { transaction } = row;
+  // Bank text profiles that already lead with the booking text do not repeat it in the purpose
+  const description = transaction.description.startsWith(`${code.bookingText} `)
+    ? transaction.description.slice(code.bookingText.length + 1)
+    : transaction.description;
+  const purpose = chunk(toSwiftCharacters(description), MAX_SUBFIELD_LENGTH).slice(0, MAX_PURPOSE_SUBFIELDS);
+  const counterparty = [
+    transaction.counterparty_iban ? `?31${transaction.counterparty_iban}` : '',
+    ...chunk(toSwiftCharacters(transaction.counterparty), MAX_SUBFIELD_LENGTH)
+      .slice(0, 2)
+      .map((name, index) => `?${32 + index}${name}`),
+  ].join('');
+
+  let lines: string[] = [];
+  for (let count = purpose.length; count >= 0; count--) {
+    const subfields = purpose.slice(0, count).map((text, index) => `?${20 + index}${text}`);
+    lines = wrapField(`:86:${code.gvc}?00${code.bookingText}${subfields.join('')}${counterparty}`);
+    if (lines.length <= MAX_INFORMATION_LINES) {
+      break;
+    }
+  }
+  return lines;
+}
+
+// Write a suite's statement rows as a SWIFT MT940 customer statement with German structured :86: fields
+export function generateMt940(suite: GeneratedTestSuite): string {
+  const accountHolder = getStatementAccountHolder(suite);
+  const rows = getSortedStatementRows(suite);
+
+  const openingBalance = getOpeningBalance(rows);
+  const closingBalance = sumAmounts([openingBalance, ...rows.map((row) => row.transaction.amount_eur)]);
+  const fromDate = rows[0]?.transaction.date ?? suite.createdAt.slice(0, 10);
+  const toDate = rows[rows.length - 1]?.transaction.date ?? fromDate;
+  const reference = getStatementReference(suite);
+
+  const lines = [
+    `:20:${reference}`,
+    `:25:${accountHolder.iban}`,
+    ':28C:00001/001',
+    balance('60F', openingBalance, fromDate),
+    ...rows.flatMap((row, index) => {
+      const code = getBookingCode(row);
+      return [statementLine(row, code, getEntryReference(reference, index)), ...informationToAccountOwner(row, code)];
+    }),
+    balance('62F', closingBalance, toDate),
+    '-',
+  ];
+  // SWIFT messages use CRLF line endings
+  return `${lines.join('\r\n')}\r\n`;
+}
@@ -0,0 +1,126 @@
+import { faker } from '@faker-js/faker';
+import { BankTransaction, Company, NoiseCategory } from './types';
+
+// Relative frequency of each kind of unrelated bank activity on a business account
+const NOISE_CATEGORY_WEIGHTS: { value: NoiseCategory; weight: number }[] = [
+  { value: 'card_purchase', weight: 35 },
+  { value: 'bank_fee', weight: 15 },
+  { value: 'salary', weight: 15 },
+  { value: 'internal_transfer', weight: 15 },
+  { value: 'tax_office', weight: 10 },
+  { value: 'rent', weight: 10 },
+];
+
+// Card schemes as they appear in the counterparty column of card purchases
+const CARD_SCHEMES = ['V PAY', 'VISA', 'MASTERCARD', 'GIROCARD', 'MAESTRO'];
+
+const CARD_MERCHANTS = [
+  'Selfmade', 'REWE', 'EDEKA', 'Amazon Mktp', 'DB Vertrieb', 'Lufthansa', 'Shell', 'Aral',
+  'IKEA', 'MediaMarkt', 'Staples', 'Apple.com/bill', 'Google Cloud', 'Uber', 'Starbucks',
+];
+
+const MERCHANT_CITIES = ['München', 'Berlin', 'Hamburg', 'Frankfurt', 'Köln', 'Stuttgart', 'Düsseldorf', 'Leipzig'];
+
+const TAX_OFFICES = ['Finanzamt Berlin-Mitte', 'Finanzamt München', 'Finanzamt Hamburg-Nord', 'Finanzamt Frankfurt am Main III'];
+
+const TAX_PURPOSES = ['USt-VA', 'Lohnsteuer-Anmeldung', 'Körperschaftsteuer-Vorauszahlung', 'Gewerbesteuer'];
+
+const BANK_FEE_DESCRIPTIONS = [
+  'Kontoführungsgebühr',
+  'Entgelt Kontoführung',
+  'SEPA Transaction Fees',
+  'Account Maintenance Fee',
+  'Rechnungsabschluss Entgelte',
+];
+
+const INTERNAL_TRANSFER_DESCRIPTIONS = ['Umbuchung Tagesgeld', 'Internal Transfer', 'Liquiditätsausgleich', 'Übertrag Festgeld'];
+
+function formatPeriod(date: Date): string {
+  return `${(date.getMonth() + 1).toString().padStart(2, '0')}/${date.getFullYear()}`;
+}
+
+function randomAmount(min: number, max: number): number {
+  return parseFloat(faker.number.float({ min, max }).toFixed(2));
+}
+
+export function getRandomNoiseCategory(): NoiseCategory {
+  return faker.helpers.weightedArrayElement(NOISE_CATEGORY_WEIGHTS);
+}
+
+// Generate one bank transaction that does not belong to any invoice
+export function generateNoiseTransaction(
+  category: NoiseCategory,
+  date: string,
+  ourCompany: Company
+): BankTransaction {
+  const period = formatPeriod(new Date(date));
+
+  switch (category) {
+    case 'card_purchase':
+      return {
+        date,
+        value_date: date,
+        counterparty: faker.helpers.arrayElement(CARD_SCHEMES),
+        counterparty_iban: '',
+        description: `${faker.helpers.arrayElement(CARD_MERCHANTS)} ${faker.helpers.arrayElement(MERCHANT_CITIES)}`,
+        amount_eur: -randomAmount(3, 250),
+      };
+
+    case 'salary':
+      return {
+        date,
+        value_date: date,
+        counterparty: faker.person.fullName(),
+        counterparty_iban: faker.finance.iban({ countryCode: 'DE' }),
+        description: `Gehalt ${period}`,
+        amount_eur: -randomAmount(2200, 7500),
+      };
+
+    case 'tax_office': {
+      // Occasionally the tax office pays back instead of collecting
+      const isRefund = faker.number.float() < 0.15;
+      const amount = randomAmount(300, 18000);
+      return {
+        date,
+        value_date: date,
+        counterparty: faker.helpers.arrayElement(TAX_OFFICES),
+        counterparty_iban: faker.finance.iban({ countryCode: 'DE' }),
+        description: `${isRefund ? 'Erstattung ' : ''}${faker.helpers.arrayElement(TAX_PURPOSES)} ${period} StNr ${faker.string.numeric(2)}/${faker.string.numeric(3)}/${faker.string.numeric(5)}`,
+        amount_eur: isRefund ? amount : -amount,
+      };
+    }
+
+    case 'bank_fee':
+      return {
+        date,
+        value_date: date,
+        counterparty: ourCompany.bankName,
+        counterparty_iban: '',
+        description: `${faker.helpers.arrayElement(BANK_FEE_DESCRIPTIONS)} ${period}`,
+        amount_eur: -randomAmount(2.5, 65),
+      };
+
+    case 'rent':
+      return {
+        date,
+        value_date: date,
+        counterparty: `${faker.person.lastName()} Immobilien GmbH`,
+        counterparty_iban: faker.finance.iban({ countryCode: 'DE' }),
+        description: `Miete Büro ${period}`,
+        amount_eur: -faker.number.int({ min: 15, max: 80 }) * 100,
+      };
+
+    case 'internal_transfer': {
+      // Transfers between our own accounts go both ways and use round amounts
+      const amount = faker.number.int({ min: 5, max: 50 }) * 1000;
+      return {
+        date,
+        value_date: date,
+        counterparty: ourCompany.name,
+        counterparty_iban: faker.finance.iban({ countryCode: 'DE' }),
+        description: faker.helpers.arrayElement(INTERNAL_TRANSFER_DESCRIPTIONS),
+        amount_eur: faker.datatype.boolean() ? amount : -amount,
+      };
+    }
+  }
+}
@@ -0,0 +1,69 @@
+import { faker } from '@faker-js/faker';
+import { PaymentServiceProvider } from './types';
+
+// How a payment service provider charges and how its payouts show up on our statement.
+// Fees are simplified standard EEA card pricing: a percentage of the charge plus a fixed amount.
+interface PspConfig {
+  legalName: string;
+  ibanCountry: string;
+  feePercent: number;
+  fixedFee: number;
+  chargeId: () => string;
+  payoutId: () => string;
+  payoutDescription: (payoutId: string) => string;
+}
+
+const PSP_CONFIGS: Record<PaymentServiceProvider, PspConfig> = {
+  stripe: {
+    legalName: 'Stripe Payments Europe Ltd',
+    ibanCountry: 'IE',
+    feePercent: 1.5,
+    fixedFee: 0.25,
+    chargeId: () => `ch_${faker.string.alphanumeric(24)}`,
+    payoutId: () => `po_${faker.string.alphanumeric(24)}`,
+    payoutDescription: (payoutId) => `STRIPE PAYOUT ${payoutId}`,
+  },
+  paypal: {
+    legalName: 'PayPal Europe S.a r.l. et Cie S.C.A',
+    ibanCountry: 'LU',
+    feePercent: 2.99,
+    fixedFee: 0.39,
+    chargeId: () => faker.string.alphanumeric({ length: 17, casing: 'upper' }),
+    payoutId: () => faker.string.alphanumeric({ length: 17, casing: 'upper' }),
+    payoutDescription: (payoutId) => `PAYPAL TRANSFER ${payoutId}`,
+  },
+  adyen: {
+    legalName: 'Adyen N.V.',
+    ibanCountry: 'NL',
+    feePercent: 0.6,
+    fixedFee: 0.13,
+    chargeId: () => faker.string.numeric(16),
+    payoutId: () => `${faker.number.int({ min: 100, max: 999 })}`,
+    payoutDescription: (payoutId) => `Adyen N.V. payout batch ${payoutId}`,
+  },
+};
+
+export const PAYMENT_SERVICE_PROVIDERS = Object.keys(PSP_CONFIGS) as PaymentServiceProvider[];
+
+// Legal name and a fresh IBAN of the provider account that pays out to us
+export function getPspAccount(provider: PaymentServiceProvider): { name: string; iban: string } {
+  const config = PSP_CONFIGS[provider];
+  return { name: config.legalName, iban: faker.finance.iban({ countryCode: config.ibanCountry }) };
+}
+
+// Fee the provider keeps from a single charge
+export function calculatePspFee(provider: PaymentServiceProvider, amount: number): number {
+  const config = PSP_CONFIGS[provider];
+  return parseFloat(((amount * config.feePercent) / 100 + config.fixedFee).toFixed(2));
+}
+
+export function generatePspChargeId(provider: PaymentServiceProvider): string {
+  return PSP_CONFIGS[provider].chargeId();
+}
+
+// Payout reference and the remittance text the provider sends with it
+export function generatePspPayoutReference(provider: PaymentServiceProvider): { payoutId: string; description: string } {
+  const config = PSP_CONFIGS[provider];
+  const payoutId = config.payoutId();
+  return { payoutId, description: config.payoutDescription(payoutId) };
+}
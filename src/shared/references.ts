@@ -0,0 +1,103 @@
+import { faker } from '@faker-js/faker';
+import { ReferenceMutationKind } from './types';
+
+// Mutations applied to invoice numbers in remittance text, as seen in real bank data:
+// - missing_prefix:        letters in front are dropped         BILL-2025-0892 -> 2025-0892
+// - dropped_leading_zeros: zero padding of number groups is lost BILL-2025-0892 -> BILL-2025-892
+// - transposed_digits:     two adjacent digits are swapped       BILL-2025-0892 -> BILL-2025-0829
+// - ocr_substitution:      look-alike characters are confused    BILL-2025-0892 -> BILL-2025-O892
+// - extra_separators:      separators are replaced or inserted   BILL-2025-0892 -> BILL 2025/08 92
+export const REFERENCE_MUTATION_KINDS: ReferenceMutationKind[] = [
+  'missing_prefix',
+  'dropped_leading_zeros',
+  'transposed_digits',
+  'ocr_substitution',
+  'extra_separators',
+];
+
+const OCR_LOOKALIKES: Record<string, string> = {
+  '0': 'O',
+  O: '0',
+  '1': 'I',
+  I: '1',
+  '5': 'S',
+  '8': 'B',
+};
+
+// Positions in a string whose character matches the predicate
+function positionsWhere(value: string, predicate: (char: string, index: number) => boolean): number[] {
+  return [...value].flatMap((char, index) => (predicate(char, index) ? [index] : []));
+}
+
+function isDigit(char: string | undefined): boolean {
+  return char !== undefined && char >= '0' && char <= '9';
+}
+
+// Apply one mutation kind to a reference; returns null when the kind does not apply to it
+export function mutateReference(reference: string, kind: ReferenceMutationKind): string | null {
+  let mutated: string;
+
+  switch (kind) {
+    case 'missing_prefix':
+      mutated = reference.replace(/^[^0-9]+/, '');
+      break;
+
+    case 'dropped_leading_zeros':
+      mutated = reference.replace(/(^|[^0-9])0+(?=[0-9])/g, '$1');
+      break;
+
+    case 'transposed_digits': {
+      const positions = positionsWhere(
+        reference,
+        (char, i) => isDigit(char) && isDigit(reference[i + 1]) && char !== reference[i + 1]
+      );
+      if (positions.length === 0) {
+        return null;
+      }
+      const i = faker.helpers.arrayElement(positions);
+      mutated = reference.slice(0, i) + reference[i + 1] + reference[i] + reference.slice(i + 2);
+      break;
+    }
+
+    case 'ocr_substitution': {
+      const positions = positionsWhere(reference, (char) => char in OCR_LOOKALIKES);
+      if (positions.length === 0) {
+        return null;
+      }
+      const i = faker.helpers.arrayElement(positions);
+      mutated = reference.slice(0, i) + OCR_LOOKALIKES[reference[i]] + reference.slice(i + 1);
+      break;
+    }
+
+    case 'extra_separators': {
+      const separatorPositions = positionsWhere(reference, (char) => /[-/. ]/.test(char));
+      const digitPairPositions = positionsWhere(reference, (char, i) => isDigit(char) && isDigit(reference[i + 1]));
+      // Either swap the separators for another one, or split a number group with a space
+      if (separatorPositions.length > 0 && (digitPairPositions.length === 0 || faker.datatype.boolean())) {
+        mutated = reference.replace(/[-/. ]/g, faker.helpers.arrayElement([' ', '/', ' - ', '.']));
+      } else if (digitPairPositions.length > 0) {
+        const i = faker.helpers.arrayElement(digitPairPositions);
+        mutated = `${reference.slice(0, i + 1)} ${reference.slice(i + 1)}`;
+      } else {
+        return null;
+      }
+      break;
+    }
+  }
+
+  return mutated !== reference && mutated.length > 0 ? mutated : null;
+}
+
+// Mutate a reference with a random applicable kind from the allowed list
+export function corruptReference(
+  reference: string,
+  kinds: ReferenceMutationKind[]
+): { kind: ReferenceMutationKind; mutated: string } | null {
+  for (const kind of faker.helpers.shuffle([...kinds])) {
+    const mutated = mutateReference(reference, kind);
+    if (mutated !== null) {
+      return { kind, mutated };
+    }
+  }
+  return null;
+}
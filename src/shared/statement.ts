@@ -0,0 +1,96 @@
+import type { BookingCategory, BookingKind } from './bankText';
+import { BankTransaction, Company, GeneratedTestSuite, Invoice, NoiseTransaction, TestCase } from './types';
+
+// Bank statement row with the kind of booking it is and what it is for; rows of a test case keep a link to it
+export interface StatementRow {
+  transaction: BankTransaction;
+  kind: BookingKind;
+  category: BookingCategory;
+  testCase?: TestCase;
+}
+
+// All statement transactions that belong to a test case
+export function getTestCaseTransactions(testCase: TestCase): BankTransaction[] {
+  if (testCase.transactions) {
+    return testCase.transactions;
+  }
+  return testCase.transaction ? [testCase.transaction] : [];
+}
+
+// All statement rows of a suite; transactions without counterparty IBAN are the bank's own fee lines
+export function getStatementRows(testCases: TestCase[], noiseTransactions: NoiseTransaction[]): StatementRow[] {
+  const rows: StatementRow[] = [];
+  for (const testCase of testCases) {
+    for (const transaction of getTestCaseTransactions(testCase)) {
+      rows.push({
+        transaction,
+        kind: transaction.counterparty_iban ? 'transfer' : 'fee',
+        category: testCase.direction === 'payables' ? 'supplier_payment' : 'customer_payment',
+        testCase,
+      });
+    }
+  }
+  for (const noise of noiseTransactions) {
+    const kind = noise.category === 'card_purchase' ? 'card' : noise.category === 'bank_fee' ? 'fee' : 'transfer';
+    rows.push({ transaction: noise.transaction, kind, category: noise.category });
+  }
+  return rows;
+}
+
+// Statement rows of a generated suite in booking order
+export function getSortedStatementRows(suite: GeneratedTestSuite): StatementRow[] {
+  return getStatementRows(suite.cases, suite.noiseTransactions).sort((a, b) =>
+    a.transaction.date.localeCompare(b.transaction.date)
+  );
+}
+
+// Our company, whose account the statement is for: the customer of payables, the supplier of receivables
+export function getStatementAccountHolder(suite: GeneratedTestSuite): Company {
+  const testCase = suite.cases[0];
+  if (!testCase) {
+    throw new Error('A statement needs at least one test case');
+  }
+  return testCase.direction === 'payables' ? testCase.invoice.customer : testCase.invoice.supplier;
+}
+
+// Statement reference derived from the suite id, at most 16 characters so it fits MT940 reference fields
+export function getStatementReference(suite: GeneratedTestSuite): string {
+  return suite.id.replace(/-/g, '').slice(0, 16).toUpperCase();
+}
+
+// Bank reference of the n-th entry (0-based), the same in every statement format
+export function getEntryReference(statementReference: string, index: number): string {
+  return `${statementReference.slice(0, 10)}${(index + 1).toString().padStart(6, '0')}`;
+}
+
+// End-to-end reference the bank text quotes as EREF+ (Sparkasse) or Kenmerk: (ING), if any
+export function getEndToEndId(row: StatementRow): string | undefined {
+  return /(?:EREF\+|Kenmerk:) (\S+)/.exec(row.transaction.description)?.[1];
+}
+
+// Invoices of the row's test case whose number the remittance text quotes verbatim
+export function getReferencedInvoices(row: StatementRow): Invoice[] {
+  if (!row.testCase) {
+    return [];
+  }
+  return (row.testCase.invoices ?? [row.testCase.invoice]).filter((invoice) =>
+    row.transaction.description.includes(invoice.number)
+  );
+}
+
+// Opening balance that keeps the account in credit throughout the statement: the deepest overdraft the
+// rows would cause, rounded up to a thousand, plus a 10,000 buffer
+export function getOpeningBalance(rows: StatementRow[]): number {
+  let balance = 0;
+  let lowest = 0;
+  for (const { transaction } of rows) {
+    balance += transaction.amount_eur;
+    lowest = Math.min(lowest, balance);
+  }
+  return Math.ceil(-lowest / 1000) * 1000 + 10000;
+}
+
+// Sum of amounts, rounded to cents
+export function sumAmounts(amounts: number[]): number {
+  return parseFloat(amounts.reduce((total, amount) => total + amount, 0).toFixed(2));
+}
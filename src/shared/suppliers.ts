@@ -1,18 +1,19 @@
 import { faker } from '@faker-js/faker';
-import { Company } from './types';
+import { Company, InvoiceNumberScheme, InvoiceNumberSchemeKind, ThirdPartyRelationship } from './types';
 
 // European country configurations for realistic company data
+// VAT rates in percent; eu marks membership of the EU VAT area (reverse charge applies between members)
 const EU_COUNTRIES = [
-  { code: 'DE', locale: 'de', suffix: ['GmbH', 'AG', 'KG'], vatPrefix: 'DE', ibanPrefix: 'DE', bankNames: ['Deutsche Bank AG', 'Commerzbank AG', 'DZ Bank AG'] },
-  { code: 'NL', locale: 'nl', suffix: ['B.V.', 'N.V.'], vatPrefix: 'NL', ibanPrefix: 'NL', bankNames: ['ING Bank N.V.', 'ABN AMRO', 'Rabobank'] },
-  { code: 'GB', locale: 'en_GB', suffix: ['Ltd', 'PLC'], vatPrefix: 'GB', ibanPrefix: 'GB', bankNames: ['Barclays Bank', 'HSBC UK', 'Lloyds Bank'] },
-  { code: 'FR', locale: 'fr', suffix: ['S.A.', 'S.A.R.L.', 'SAS'], vatPrefix: 'FR', ibanPrefix: 'FR', bankNames: ['BNP Paribas', 'Crédit Agricole', 'Société Générale'] },
-  { code: 'IT', locale: 'it', suffix: ['SpA', 'S.r.l.'], vatPrefix: 'IT', ibanPrefix: 'IT', bankNames: ['UniCredit S.p.A.', 'Intesa Sanpaolo', 'Banca Monte dei Paschi'] },
-  { code: 'ES', locale: 'es', suffix: ['S.A.', 'S.L.'], vatPrefix: 'ES', ibanPrefix: 'ES', bankNames: ['Banco Santander', 'BBVA', 'CaixaBank'] },
-  { code: 'SE', locale: 'sv', suffix: ['AB', 'AS'], vatPrefix: 'SE', ibanPrefix: 'SE', bankNames: ['Nordea Bank', 'SEB', 'Swedbank'] },
-  { code: 'CH', locale: 'de_CH', suffix: ['AG', 'GmbH', 'SA'], vatPrefix: 'CHE', ibanPrefix: 'CH', bankNames: ['UBS AG', 'Credit Suisse', 'Zürcher Kantonalbank'] },
-  { code: 'BE', locale: 'nl_BE', suffix: ['S.A.', 'N.V.', 'SPRL'], vatPrefix: 'BE', ibanPrefix: 'BE', bankNames: ['BNP Paribas Fortis', 'KBC Bank', 'Belfius'] },
-  { code: 'AT', locale: 'de_AT', suffix: ['GmbH', 'AG'], vatPrefix: 'ATU', ibanPrefix: 'AT', bankNames: ['Erste Bank', 'Raiffeisen Bank', 'Bank Austria'] },
+  { code: 'DE', locale: 'de', suffix: ['GmbH', 'AG', 'KG'], vatPrefix: 'DE', ibanPrefix: 'DE', bankNames: ['Deutsche Bank AG', 'Commerzbank AG', 'DZ Bank AG'], eu: true, vatRates: { standard: 19, reduced: [7] } },
+  { code: 'NL', locale: 'nl', suffix: ['B.V.', 'N.V.'], vatPrefix: 'NL', ibanPrefix: 'NL', bankNames: ['ING Bank N.V.', 'ABN AMRO', 'Rabobank'], eu: true, vatRates: { standard: 21, reduced: [9] } },
+  { code: 'GB', locale: 'en_GB', suffix: ['Ltd', 'PLC'], vatPrefix: 'GB', ibanPrefix: 'GB', bankNames: ['Barclays Bank', 'HSBC UK', 'Lloyds Bank'], eu: false, vatRates: { standard: 20, reduced: [5] } },
+  { code: 'FR', locale: 'fr', suffix: ['S.A.', 'S.A.R.L.', 'SAS'], vatPrefix: 'FR', ibanPrefix: 'FR', bankNames: ['BNP Paribas', 'Crédit Agricole', 'Société Générale'], eu: true, vatRates: { standard: 20, reduced: [10, 5.5, 2.1] } },
+  { code: 'IT', locale: 'it', suffix: ['SpA', 'S.r.l.'], vatPrefix: 'IT', ibanPrefix: 'IT', bankNames: ['UniCredit S.p.A.', 'Intesa Sanpaolo', 'Banca Monte dei Paschi'], eu: true, vatRates: { standard: 22, reduced: [10, 5, 4] } },
+  { code: 'ES', locale: 'es', suffix: ['S.A.', 'S.L.'], vatPrefix: 'ES', ibanPrefix: 'ES', bankNames: ['Banco Santander', 'BBVA', 'CaixaBank'], eu: true, vatRates: { standard: 21, reduced: [10, 4] } },
+  { code: 'SE', locale: 'sv', suffix: ['AB', 'AS'], vatPrefix: 'SE', ibanPrefix: 'SE', bankNames: ['Nordea Bank', 'SEB', 'Swedbank'], eu: true, vatRates: { standard: 25, reduced: [12, 6] } },
+  { code: 'CH', locale: 'de_CH', suffix: ['AG', 'GmbH', 'SA'], vatPrefix: 'CHE', ibanPrefix: 'CH', bankNames: ['UBS AG', 'Credit Suisse', 'Zürcher Kantonalbank'], eu: false, vatRates: { standard: 8.1, reduced: [2.6, 3.8] } },
+  { code: 'BE', locale: 'nl_BE', suffix: ['S.A.', 'N.V.', 'SPRL'], vatPrefix: 'BE', ibanPrefix: 'BE', bankNames: ['BNP Paribas Fortis', 'KBC Bank', 'Belfius'], eu: true, vatRates: { standard: 21, reduced: [12, 6] } },
+  { code: 'AT', locale: 'de_AT', suffix: ['GmbH', 'AG'], vatPrefix: 'ATU', ibanPrefix: 'AT', bankNames: ['Erste Bank', 'Raiffeisen Bank', 'Bank Austria'], eu: true, vatRates: { standard: 20, reduced: [13, 10] } },
 ];
 
 // Business word components for company names
@@ -94,6 +95,55 @@ function generateNameVariations(baseName: string, legalSuffix: string): string[]
   return [...new Set(variations)]; // Remove duplicates
 }
 
+// Whether a country belongs to the EU VAT area
+export function isEuVatCountry(countryCode: string): boolean {
+  return EU_COUNTRIES.some((country) => country.code === countryCode && country.eu);
+}
+
+// Standard and reduced VAT rates of a country, falling back to the German rates
+export function getVatRates(countryCode: string): { standard: number; reduced: number[] } {
+  return (EU_COUNTRIES.find((country) => country.code === countryCode) ?? EU_COUNTRIES[0]).vatRates;
+}
+
+// Prefixes suppliers put in front of their invoice numbers, per scheme kind
+const INVOICE_NUMBER_PREFIXES: Partial<Record<InvoiceNumberSchemeKind, string[]>> = {
+  year_sequence: ['RE', 'RG', 'INV', 'BILL', 'FAC'],
+  prefix_year_slash: ['RE', 'RG', 'R', 'FA'],
+  prefix_padded: ['F', 'FV', 'N', 'INV'],
+};
+
+// Pick how a supplier numbers its invoices. Counters start near the suite's sequence,
+// so suppliers with the same format produce the same numbers (two vendors both billing 1023).
+function generateInvoiceNumberScheme(): InvoiceNumberScheme {
+  const kind = faker.helpers.arrayElement<InvoiceNumberSchemeKind>([
+    'year_sequence',
+    'prefix_year_slash',
+    'prefix_padded',
+    'plain',
+    'year_country',
+    'check_digit',
+  ]);
+
+  let prefix = '';
+  if (kind === 'check_digit') {
+    prefix = faker.string.alpha({ length: 2, casing: 'upper' });
+  } else if (INVOICE_NUMBER_PREFIXES[kind]) {
+    prefix = faker.helpers.arrayElement(INVOICE_NUMBER_PREFIXES[kind]);
+  }
+
+  // Plain numbers are either short running counters or 8-digit document numbers
+  const offset = kind === 'plain' && faker.datatype.boolean()
+    ? faker.number.int({ min: 10000000, max: 99000000 })
+    : faker.number.int({ min: 0, max: 20 });
+
+  return {
+    kind,
+    prefix,
+    creditNotePrefix: faker.helpers.arrayElement(['CN', 'GS', 'CR', 'AV']),
+    offset,
+  };
+}
+
 // Generate a random supplier company
 export function generateCompany(): Company & { nameVariations: string[] } {
   const country = faker.helpers.arrayElement(EU_COUNTRIES);
@@ -108,8 +158,10 @@ export function generateCompany(): Company & { nameVariations: string[] } {
     email: faker.internet.email({ firstName: 'billing', lastName: baseName.toLowerCase().replace(/\s+/g, '') }),
     website: `www.${baseName.toLowerCase().replace(/\s+/g, '')}.${country.code.toLowerCase()}`,
     bankName: faker.helpers.arrayElement(country.bankNames),
-    iban: faker.finance.iban({ countryCode: country.ibanPrefix as any }),
+    iban: faker.finance.iban({ countryCode: country.ibanPrefix }),
     vatId: `${country.vatPrefix}${faker.string.numeric(9)}`,
+    countryCode: country.code,
+    invoiceNumberScheme: generateInvoiceNumberScheme(),
     nameVariations: generateNameVariations(baseName, legalSuffix),
   };
 }
@@ -119,10 +171,33 @@ export function getRandomSupplier(): Company & { nameVariations: string[] } {
   return generateCompany();
 }
 
+// Suite-level set of recurring counterparties; a few of them account for most invoices, as in a real ledger
+export interface CounterpartyPool {
+  companies: (Company & { nameVariations: string[] })[];
+  weights: number[];
+}
+
+// Create a pool whose k-th company is drawn with weight 1/k^exponent (Zipf-like; 0 draws uniformly)
+export function createCounterpartyPool(size: number, zipfExponent: number): CounterpartyPool {
+  const companies = Array.from({ length: size }, () => generateCompany());
+  const weights = companies.map((_, k) => 1 / Math.pow(k + 1, zipfExponent));
+  return { companies, weights };
+}
+
+// Draw a counterparty from the pool, or generate a new one when the suite has no pool
+export function getCounterparty(pool?: CounterpartyPool): Company & { nameVariations: string[] } {
+  if (!pool) {
+    return getRandomSupplier();
+  }
+  return faker.helpers.weightedArrayElement(
+    pool.companies.map((company, k) => ({ value: company, weight: pool.weights[k] }))
+  );
+}
+
 // Get a random name variation for a company (for bank transaction descriptions)
 export function getRandomNameVariation(company: Company & { nameVariations?: string[] }): string {
   // 40% chance to use the original name
-  if (Math.random() < 0.4) {
+  if (faker.number.float() < 0.4) {
     return company.name;
   }
 
@@ -153,6 +228,56 @@ function generateSimpleVariation(name: string): string {
   }
 }
 
+// Factoring companies that collect receivables on behalf of suppliers
+const FACTORING_COMPANIES = [
+  'Deutsche Factoring Bank',
+  'Eurofactor GmbH',
+  'Coface Finanz GmbH',
+  'Bibby Financial Services GmbH',
+  'abcfinance GmbH',
+  'TARGO Commercial Finance AG',
+];
+
+// Payment and payroll providers that move money on behalf of their clients
+const PAYMENT_PROVIDERS = [
+  { name: 'Wise Europe SA', ibanPrefix: 'BE' },
+  { name: 'PayPal Europe S.a r.l. et Cie', ibanPrefix: 'LU' },
+  { name: 'Payoneer Europe Ltd', ibanPrefix: 'IE' },
+  { name: 'Ebury Partners Belgium SA', ibanPrefix: 'BE' },
+  { name: 'ADP Employer Services GmbH', ibanPrefix: 'DE' },
+  { name: 'Stripe Payments Europe Ltd', ibanPrefix: 'IE' },
+];
+
+// Generate the name and IBAN of a party that pays or collects instead of the invoice party
+export function generateThirdPartyPayer(
+  relationship: ThirdPartyRelationship,
+  company: Company
+): { name: string; iban: string } {
+  switch (relationship) {
+    case 'parent_company': {
+      // Parent shares the first word of the subsidiary's name and banks in the same country
+      const words = company.name.split(' ');
+      const legalSuffix = words.length > 1 ? words[words.length - 1] : 'AG';
+      return {
+        name: `${words[0]} Holding ${legalSuffix}`,
+        iban: faker.finance.iban({ countryCode: company.iban.slice(0, 2) }),
+      };
+    }
+    case 'factoring_company':
+      return {
+        name: faker.helpers.arrayElement(FACTORING_COMPANIES),
+        iban: faker.finance.iban({ countryCode: 'DE' }),
+      };
+    case 'payment_provider': {
+      const provider = faker.helpers.arrayElement(PAYMENT_PROVIDERS);
+      return {
+        name: provider.name,
+        iban: faker.finance.iban({ countryCode: provider.ibanPrefix }),
+      };
+    }
+  }
+}
+
 // Products/Services for invoice items
 export const PRODUCTS = [
   { name: 'Software License - Enterprise', basePrice: 5000, category: 'software' },
@@ -175,7 +300,7 @@ export const PRODUCTS = [
 // Generate a random product with faker-enhanced variety
 export function generateProduct() {
   // 70% chance to use predefined products, 30% chance to generate new one
-  if (Math.random() < 0.7) {
+  if (faker.number.float() < 0.7) {
     return faker.helpers.arrayElement(PRODUCTS);
   }
 
@@ -7,18 +7,87 @@ export type TestCaseType =
   | 'discount_1_percent'
   | 'discount_2_percent'
   | 'discount_3_percent'
+  | 'discount_after_window'
   | 'fx_gain'
   | 'fx_loss'
   | 'partial_match_no_description'
   | 'partial_match_amount_mismatch'
   | 'partial_match_date_far'
-  | 'group_payment';
+  | 'late_payment_with_fees'
+  | 'group_payment'
+  | 'psp_payout'
+  | 'installment_payment'
+  | 'partial_payment_then_remainder'
+  | 'credit_note_refund'
+  | 'credit_note_netting'
+  | 'bank_charges_deducted'
+  | 'bank_charges_separate_fee'
+  | 'duplicate_payment'
+  | 'ambiguous_lookalike_invoices'
+  | 'third_party_payment'
+  | 'open_invoice';
+
+// Regular invoice or a credit note that reverses (part of) an earlier invoice
+export type InvoiceDocumentType = 'invoice' | 'credit_note';
+
+// Who bears the charges of a cross-border payment: shared, ordering party, or beneficiary
+export type ChargeBearer = 'SHA' | 'OUR' | 'BEN';
+
+// How a third party that pays or collects relates to the invoice party
+export type ThirdPartyRelationship = 'parent_company' | 'factoring_company' | 'payment_provider';
+
+// Ways an invoice number can be mangled in remittance text (see src/shared/references.ts)
+export type ReferenceMutationKind =
+  | 'missing_prefix'
+  | 'dropped_leading_zeros'
+  | 'transposed_digits'
+  | 'ocr_substitution'
+  | 'extra_separators';
+
+export interface ReferenceMutation {
+  kind: ReferenceMutationKind;
+  original: string;
+  mutated: string;
+}
+
+// How the bank words booking text and counterparty in its export
+export type BankTextProfile = 'plain' | 'sparkasse' | 'ing_nl' | 'neobank';
+
+// Payment service providers that collect card and wallet payments and pay them out in batches
+export type PaymentServiceProvider = 'stripe' | 'paypal' | 'adyen';
+
+// Unrelated bank activity mixed into the statement (no invoice belongs to it)
+export type NoiseCategory =
+  | 'card_purchase'
+  | 'salary'
+  | 'tax_office'
+  | 'bank_fee'
+  | 'rent'
+  | 'internal_transfer';
+
+// Inclusive range of a tunable test case parameter
+export interface NumberRange {
+  min: number;
+  max: number;
+}
+
+// Optional tuning of a test case type; each type only takes the parameters listed in TEST_CASE_PARAM_DEFAULTS
+export interface TestCaseParams {
+  dayOffset?: NumberRange; // Days from the invoice (latest invoice, credit note) date to the (first) payment; for late payments with fees, from the due date; for PSP payouts, from the latest charge
+  amountDeviationPercent?: NumberRange; // Deviation of the paid amount from the invoice total, in percent
+  discountPercent?: NumberRange; // Whole percent of cash discount deducted
+  fxChangePercent?: NumberRange; // Size of the exchange rate move between invoice and payment date, in percent
+  groupSize?: NumberRange; // Number of invoices in the group
+}
+
+export type TestCaseParamName = keyof TestCaseParams;
 
 export interface TestCaseConfig {
   type: TestCaseType;
   label: string;
   description: string;
   quantity: number;
+  params?: TestCaseParams;
 }
 
 export interface Company {
@@ -30,6 +99,30 @@ export interface Company {
   bankName: string;
   iban: string;
   vatId: string;
+  countryCode: string; // ISO 3166-1 alpha-2 country the company is established in
+  invoiceNumberScheme?: InvoiceNumberScheme; // How the company numbers its invoices; without one, INV-/BILL- numbers are used
+}
+
+// Invoice number formats used by suppliers:
+// - year_sequence:     RE-2025-0892
+// - prefix_year_slash: RE2025/0892
+// - prefix_padded:     F-000123
+// - plain:             1023 or 12345678
+// - year_country:      2025-DE-00451
+// - check_digit:       KX00045197 (letters, 7 digits and a Luhn check digit)
+export type InvoiceNumberSchemeKind =
+  | 'year_sequence'
+  | 'prefix_year_slash'
+  | 'prefix_padded'
+  | 'plain'
+  | 'year_country'
+  | 'check_digit';
+
+export interface InvoiceNumberScheme {
+  kind: InvoiceNumberSchemeKind;
+  prefix: string; // Empty for kinds without a prefix
+  creditNotePrefix: string;
+  offset: number; // Added to the suite's invoice sequence, so counters of different suppliers overlap
 }
 
 export interface InvoiceItem {
@@ -39,6 +132,45 @@ export interface InvoiceItem {
   tax: number;
 }
 
+// How VAT is charged on an invoice:
+// - domestic:       supplier and customer in the same country, the supplier's VAT rates apply
+// - reverse_charge: cross-border B2B within the EU, no VAT charged, the customer accounts for it
+// - non_eu:         one of the parties is outside the EU VAT area, no VAT charged
+export type VatTreatment = 'domestic' | 'reverse_charge' | 'non_eu';
+
+export interface TaxBreakdownEntry {
+  rate: number;
+  taxableAmount: number;
+  taxAmount: number;
+}
+
+// Structured payment terms, e.g. "2% within 10 days, net 30"
+export interface PaymentTerms {
+  netDays: number; // Days after the invoice date until the full amount is due
+  discountPercent?: number; // Cash discount offered for early payment
+  discountDays?: number; // Days after the invoice date the discount may be taken
+  discountDueDate?: string; // Last day of the discount window
+  text: string; // As printed on the invoice
+}
+
+// Factur-X / ZUGFeRD 2.x profile of the CII XML embedded in a hybrid PDF invoice
+export type FacturXProfile = 'MINIMUM' | 'BASIC' | 'EN16931';
+
+// Invoice fields the embedded XML can deliberately disagree on with the visual invoice
+export type FacturXMismatchField = 'invoice_number' | 'issue_date' | 'due_date' | 'total' | 'iban';
+
+export interface FacturXMismatch {
+  field: FacturXMismatchField;
+  visualValue: string; // As printed on the PDF page
+  xmlValue: string; // As written to the embedded XML
+}
+
+// Embedded Factur-X XML of a hybrid PDF invoice
+export interface FacturXEmbedding {
+  profile: FacturXProfile;
+  mismatch?: FacturXMismatch; // Only when the XML deliberately disagrees with the visual invoice
+}
+
 export interface Invoice {
   id: string;
   number: string;
@@ -53,36 +185,172 @@ export interface Invoice {
   currency: string;
   note: string;
   direction: TransactionDirection; // Whether this is a receivable (we issue) or payable (we receive)
+  documentType: InvoiceDocumentType;
+  originalInvoiceNumber?: string; // For credit notes and late fee invoices - the invoice being credited or charged for
+  vatTreatment: VatTreatment;
+  taxBreakdown: TaxBreakdownEntry[]; // One line per VAT rate, as printed on the invoice
+  paymentTerms?: PaymentTerms; // Absent on credit notes
+  facturX?: FacturXEmbedding; // Set when the PDF is a Factur-X / ZUGFeRD hybrid invoice
 }
 
 export interface BankTransaction {
-  date: string;
+  date: string; // Booking date
+  value_date: string; // Date from which the amount counts for interest (Valuta)
   counterparty: string;
   counterparty_iban: string;
   description: string;
   amount_eur: number;
 }
 
+// What was charged on top of an invoice paid late
+export interface LateFeeBreakdown {
+  daysOverdue: number; // Days from the due date to the payment date
+  baseRate: number; // German base rate (Basiszinssatz) on the due date, in percent
+  baseRateCarriedForward?: boolean; // Set when the due date is past the published base rates, so the last one was used
+  interestRate: number; // Annual default interest in percent: base rate + 9 points (§ 288(2) BGB)
+  interestAmount: number;
+  dunningFee: number;
+  flatCompensation: number; // 40 EUR lump sum (§ 288(5) BGB), or 0 when not claimed
+  total: number; // Sum of interest, dunning fee and flat compensation
+}
+
+// Payment reminder sent by the supplier after the due date passed
+export interface DunningLetter {
+  id: string;
+  date: string;
+  supplier: Company; // Sender, owed the money
+  customer: Company;
+  direction: TransactionDirection;
+  invoiceNumber: string;
+  invoiceDate: string;
+  dueDate: string;
+  currency: string;
+  outstandingAmount: number;
+  daysOverdue: number; // At the letter date
+  interestRate: number;
+  interestAmount: number; // Accrued up to the letter date; more interest accrues until payment
+  dunningFee: number;
+  flatCompensation: number;
+  totalDue: number;
+  payBy: string;
+}
+
+// One customer payment collected by a payment service provider
+export interface PspCharge {
+  chargeId: string;
+  date: string;
+  invoiceNumber: string;
+  customer: string;
+  grossAmount: number;
+  feeAmount: number;
+  netAmount: number;
+}
+
+// Batch payout of a payment service provider, as listed in its settlement report
+export interface PspPayout {
+  provider: PaymentServiceProvider;
+  payoutId: string;
+  date: string;
+  currency: string;
+  charges: PspCharge[];
+  grossAmount: number;
+  feeAmount: number;
+  netAmount: number; // Amount that reaches our bank account
+}
+
+export interface NoiseTransaction {
+  id: string;
+  category: NoiseCategory;
+  transaction: BankTransaction;
+  expectedMatch: 'no_matching_invoice';
+}
+
 export interface TestCase {
   id: string;
   type: TestCaseType;
   direction: TransactionDirection;
   invoice: Invoice;
-  invoices?: Invoice[]; // For group payments - multiple invoices
-  transaction: BankTransaction;
+  invoices?: Invoice[]; // For group payments, credit notes and ambiguous cases - multiple invoices
+  transaction?: BankTransaction; // Absent for open invoices that have not been paid yet
+  transactions?: BankTransaction[]; // For installments, fee lines, duplicates and late fee invoices - multiple transactions
+  dunningLetter?: DunningLetter; // For late payments with fees - the reminder sent before payment
+  pspPayout?: PspPayout; // For PSP payouts - the settlement the provider reports for the payout
   metadata: {
     originalAmount: number;
     adjustedAmount: number;
     adjustmentReason?: string;
     discountPercent?: number;
-    fxRate?: number;
+    invalidDeductionAmount?: number; // For discounts taken after the window expired - amount deducted without entitlement
+    lateFees?: LateFeeBreakdown; // For late payments with fees - interest and fees charged on top of the invoice
+    fxRate?: number; // Rate applied when the payment was converted (units of invoice currency per EUR)
+    invoiceCurrency?: string; // For FX cases - currency the invoice was issued in
+    invoiceDateFxRate?: number; // For FX cases - reference rate on the invoice date
+    paymentDateFxRate?: number; // For FX cases - reference rate on the payment date
     matchingFields: string[];
     mismatchedFields: string[];
-    groupedInvoiceCount?: number; // For group payments
+    groupedInvoiceCount?: number; // For group payments and PSP payouts
+    providerFees?: number; // For PSP payouts - fees the provider kept from the charges
+    installmentCount?: number; // For installment payments
+    creditNoteAmount?: number; // For credit notes - amount credited (positive)
+    bankFee?: number; // For bank charge cases - fee amount (positive)
+    chargeBearer?: ChargeBearer; // For bank charge cases - charging option of the payment
+    matchedTransactionIndex?: number; // For duplicate payments - index in transactions of the true match
+    duplicateTransactionIndex?: number; // For duplicate payments - index in transactions to flag as duplicate/refund candidate
+    plausibleInvoiceNumbers?: string[]; // For ambiguous cases - every invoice the transaction could plausibly pay
+    correctInvoiceNumber?: string; // For ambiguous cases - the invoice that was actually paid
+    thirdParty?: {
+      // For third-party payments - who appears on the statement instead of the invoice party
+      relationship: ThirdPartyRelationship;
+      name: string;
+      iban: string;
+      onBehalfOf: string; // Name of the invoice party
+    };
+    referenceMutations?: ReferenceMutation[]; // Invoice numbers mangled in transaction descriptions
   };
 }
 
-export interface GenerationRequest {
+// Fields of the bank transactions CSV; 'amount' is signed, 'debit' and 'credit' split it into two unsigned columns
+export type CsvField = 'date' | 'value_date' | 'counterparty' | 'counterparty_iban' | 'description' | 'amount' | 'debit' | 'credit';
+
+export type CsvDateFormat = 'yyyy-MM-dd' | 'dd.MM.yyyy' | 'dd-MM-yyyy';
+
+export type CsvEncoding = 'utf-8' | 'utf-8-bom' | 'windows-1252';
+
+export type CsvDialectPreset = 'default' | 'german' | 'dutch';
+
+// How the bank transactions CSV is written
+export interface CsvDialect {
+  delimiter: string; // Single character, e.g. ';', ',' or '\t'
+  quoting: 'minimal' | 'all'; // Quote only fields containing the delimiter, a quote or a line break, or every field
+  escaping: 'double' | 'backslash'; // A quote inside a quoted field is written as "" or \"
+  decimalSeparator: '.' | ',';
+  dateFormat: CsvDateFormat;
+  encoding: CsvEncoding; // Applied to downloaded files; csvContent in the JSON is always text
+  columns: { field: CsvField; header: string }[]; // Column order and header names
+}
+
+// Suite-level generation options
+export interface GenerationOptions {
+  seed?: number; // Unsigned 32-bit seed; the same seed and generator version reproduce the same suite
+  noisePercent?: number; // Share (0-90) of statement rows that are unrelated bank activity
+  openInvoicePercent?: number; // Share (0-90) of all invoices that stay open (no payment)
+  referenceCorruption?: {
+    percent: number; // Share (0-100) of invoice references in descriptions that get mangled
+    kinds?: ReferenceMutationKind[]; // Mutation kinds to choose from (default: all)
+  };
+  bankTextProfile?: BankTextProfile; // Default: 'plain'
+  counterpartyPool?: {
+    size: number; // Number of recurring counterparties (1-500) all test cases draw from
+    zipfExponent?: number; // Skew (0-3) of how often they recur: the k-th is drawn with weight 1/k^exponent (default 1, 0 = uniform)
+  };
+  csvDialect?: CsvDialectPreset | Partial<CsvDialect>; // Preset, or settings that override the default dialect (default: 'default')
+  facturX?: {
+    profile: FacturXProfile; // Embed CII XML of this profile in every invoice PDF
+    mismatchPercent?: number; // Share (0-100) of invoices whose XML deliberately disagrees with the visual invoice (default 0)
+  };
+}
+
+export interface GenerationRequest extends GenerationOptions {
   cases: TestCaseConfig[];
   direction: TransactionDirection;
   dateRange: {
@@ -96,8 +364,27 @@ export interface GeneratedTestSuite {
   id: string;
   createdAt: string;
   direction: TransactionDirection | 'mixed'; // 'mixed' when both payables and receivables
+  seed: number; // Seed the suite was generated with (the base seed for 'mixed' suites)
+  generatorVersion: string;
   cases: TestCase[];
+  noiseTransactions: NoiseTransaction[]; // Statement rows with no matching invoice
   csvContent: string;
+  csvDialect: CsvDialect; // Dialect csvContent is written in
+  counterparties: CounterpartyMasterData[]; // Vendor/customer master data of every invoice party
+  masterDataCsv: string;
+  settlementReportCsv: string; // Charges behind every PSP payout (header only when there are none)
+}
+
+// Vendor or customer record of the master data export
+export interface CounterpartyMasterData {
+  id: string; // V0001... for vendors, C0001... for customers
+  role: 'vendor' | 'customer';
+  name: string;
+  iban: string;
+  vatId: string;
+  countryCode: string;
+  nameVariations: string[];
+  invoiceCount: number; // Invoices and credit notes in the suite
 }
 
 // PDF Invoice package data structure
@@ -156,13 +443,17 @@ export const TEST_CASE_CONFIGS: Record<TestCaseType, { label: string; descriptio
     label: '3% Early Payment Discount',
     description: 'Transaction amount is 3% less due to early payment discount',
   },
+  discount_after_window: {
+    label: 'Discount After Window Expired',
+    description: 'Cash discount deducted although payment was made after the discount window closed (invalid deduction)',
+  },
   fx_gain: {
     label: 'FX Gain',
-    description: 'Foreign exchange conversion resulted in paying less EUR than expected',
+    description: 'Foreign-currency invoice; the rate moved in our favour between invoice and payment date',
   },
   fx_loss: {
     label: 'FX Loss',
-    description: 'Foreign exchange conversion resulted in paying more EUR than expected',
+    description: 'Foreign-currency invoice; the rate moved against us between invoice and payment date',
   },
   partial_match_no_description: {
     label: 'Partial Match - Missing Description',
@@ -176,8 +467,193 @@ export const TEST_CASE_CONFIGS: Record<TestCaseType, { label: string; descriptio
     label: 'Partial Match - Date Far Apart',
     description: 'Transaction date is unusually far from invoice date (30+ days)',
   },
+  late_payment_with_fees: {
+    label: 'Late Payment with Fees',
+    description: 'Paid after a dunning letter; the payment or a follow-up invoice adds a dunning fee and default interest',
+  },
   group_payment: {
     label: 'Group Payment',
     description: 'Single transaction covering 2-3 invoices from the same supplier/customer',
   },
+  psp_payout: {
+    label: 'PSP Payout',
+    description: 'Stripe, PayPal or Adyen payout covering invoices of several customers, net of provider fees (receivables only)',
+  },
+  installment_payment: {
+    label: 'Installment Payment',
+    description: 'Invoice paid in 2-4 installments over several weeks that add up to the total',
+  },
+  partial_payment_then_remainder: {
+    label: 'Partial Payment + Remainder',
+    description: 'Part of the invoice is paid first, the remaining balance follows weeks later',
+  },
+  credit_note_refund: {
+    label: 'Credit Note Refund',
+    description: 'Credit note against an earlier invoice, refunded by a transaction in the opposite direction',
+  },
+  credit_note_netting: {
+    label: 'Credit Note Netting',
+    description: 'Single payment equal to the invoice total minus a credit note',
+  },
+  bank_charges_deducted: {
+    label: 'Bank Charges Deducted',
+    description: 'Cross-border payment off by a round bank fee (receivable arrives short, payable debited incl. fee)',
+  },
+  bank_charges_separate_fee: {
+    label: 'Bank Charges - Separate Fee',
+    description: 'Exact payment plus a separate bank fee line on the same day',
+  },
+  duplicate_payment: {
+    label: 'Duplicate Payment',
+    description: 'Same invoice paid twice (identical amount and reference) a few days apart',
+  },
+  ambiguous_lookalike_invoices: {
+    label: 'Ambiguous Look-alike Invoices',
+    description: '3-5 open invoices from one supplier with (near-)identical totals; only one is paid, without invoice number',
+  },
+  third_party_payment: {
+    label: 'Third-Party Payer',
+    description: 'Payment from/to a parent company, factoring company or payment provider instead of the invoice party',
+  },
+  open_invoice: {
+    label: 'Open Invoice (Unpaid)',
+    description: 'Invoice with no payment yet; no transaction should be matched to it',
+  },
+};
+
+export const BANK_TEXT_PROFILES: Record<BankTextProfile, { label: string; description: string }> = {
+  plain: {
+    label: 'Plain',
+    description: 'Remittance text only, as generated',
+  },
+  sparkasse: {
+    label: 'German Sparkasse',
+    description: 'SEPA-UEBERWEISUNG / SEPA-GUTSCHRIFT with EREF+, KREF+, MREF+, CRED+ and SVWZ+ tags, transliterated',
+  },
+  ing_nl: {
+    label: 'Dutch ING',
+    description: 'Naam / Omschrijving / IBAN / Kenmerk / Valutadatum fields, incassos with Machtiging ID',
+  },
+  neobank: {
+    label: 'Neobank',
+    description: 'Short, clean remittance text; card payments show the merchant as counterparty',
+  },
+};
+
+export const CSV_DIALECT_PRESETS: Record<CsvDialectPreset, { label: string; description: string; dialect: CsvDialect }> = {
+  default: {
+    label: 'Default',
+    description: 'Semicolon-separated, ISO dates, signed amounts with decimal point, UTF-8',
+    dialect: {
+      delimiter: ';',
+      quoting: 'minimal',
+      escaping: 'double',
+      decimalSeparator: '.',
+      dateFormat: 'yyyy-MM-dd',
+      encoding: 'utf-8',
+      columns: [
+        { field: 'date', header: 'date' },
+        { field: 'value_date', header: 'value_date' },
+        { field: 'counterparty', header: 'counterparty' },
+        { field: 'counterparty_iban', header: 'counterparty_iban' },
+        { field: 'description', header: 'description' },
+        { field: 'amount', header: 'amount_eur' },
+      ],
+    },
+  },
+  german: {
+    label: 'German Online Banking',
+    description: 'Buchungstag / Wert / Soll / Haben columns, dd.MM.yyyy, decimal comma, every field quoted, Windows-1252',
+    dialect: {
+      delimiter: ';',
+      quoting: 'all',
+      escaping: 'double',
+      decimalSeparator: ',',
+      dateFormat: 'dd.MM.yyyy',
+      encoding: 'windows-1252',
+      columns: [
+        { field: 'date', header: 'Buchungstag' },
+        { field: 'value_date', header: 'Wert' },
+        { field: 'counterparty', header: 'Begünstigter / Auftraggeber' },
+        { field: 'description', header: 'Verwendungszweck' },
+        { field: 'counterparty_iban', header: 'IBAN' },
+        { field: 'debit', header: 'Soll' },
+        { field: 'credit', header: 'Haben' },
+      ],
+    },
+  },
+  dutch: {
+    label: 'Dutch Online Banking',
+    description: 'Comma-separated with decimal comma, dd-MM-yyyy, Dutch headers, every field quoted, UTF-8 with BOM',
+    dialect: {
+      delimiter: ',',
+      quoting: 'all',
+      escaping: 'double',
+      decimalSeparator: ',',
+      dateFormat: 'dd-MM-yyyy',
+      encoding: 'utf-8-bom',
+      columns: [
+        { field: 'date', header: 'Datum' },
+        { field: 'value_date', header: 'Rentedatum' },
+        { field: 'amount', header: 'Bedrag' },
+        { field: 'counterparty_iban', header: 'Tegenrekening IBAN' },
+        { field: 'counterparty', header: 'Naam tegenpartij' },
+        { field: 'description', header: 'Omschrijving' },
+      ],
+    },
+  },
+};
+
+export const FACTUR_X_PROFILES: Record<FacturXProfile, { label: string; description: string }> = {
+  MINIMUM: {
+    label: 'MINIMUM',
+    description: 'Document header and totals only; not a full invoice under German law',
+  },
+  BASIC: {
+    label: 'BASIC',
+    description: 'Header, line items, VAT breakdown, payment terms and payment account',
+  },
+  EN16931: {
+    label: 'EN 16931 (COMFORT)',
+    description: 'BASIC plus seller contact details, as required for the European e-invoicing standard',
+  },
+};
+
+// Parameters each test case type takes, with the ranges used when a parameter is not set
+export const TEST_CASE_PARAM_DEFAULTS: Record<TestCaseType, TestCaseParams> = {
+  perfect_match: { dayOffset: { min: 1, max: 7 } },
+  discount_1_percent: {},
+  discount_2_percent: {},
+  discount_3_percent: {},
+  discount_after_window: { discountPercent: { min: 2, max: 3 } },
+  fx_gain: { dayOffset: { min: 3, max: 30 }, fxChangePercent: { min: 0.05, max: 10 } },
+  fx_loss: { dayOffset: { min: 3, max: 30 }, fxChangePercent: { min: 0.05, max: 10 } },
+  partial_match_no_description: { dayOffset: { min: 1, max: 10 } },
+  partial_match_amount_mismatch: { dayOffset: { min: 1, max: 10 }, amountDeviationPercent: { min: -1, max: 1 } },
+  partial_match_date_far: { dayOffset: { min: 30, max: 60 } },
+  late_payment_with_fees: { dayOffset: { min: 14, max: 60 } },
+  group_payment: { dayOffset: { min: 1, max: 7 }, groupSize: { min: 2, max: 3 } },
+  psp_payout: { dayOffset: { min: 2, max: 7 }, groupSize: { min: 3, max: 8 } },
+  installment_payment: { dayOffset: { min: 1, max: 7 } },
+  partial_payment_then_remainder: { dayOffset: { min: 1, max: 7 } },
+  credit_note_refund: { dayOffset: { min: 1, max: 10 } },
+  credit_note_netting: { dayOffset: { min: 1, max: 10 } },
+  bank_charges_deducted: { dayOffset: { min: 1, max: 7 } },
+  bank_charges_separate_fee: { dayOffset: { min: 1, max: 7 } },
+  duplicate_payment: { dayOffset: { min: 1, max: 7 } },
+  ambiguous_lookalike_invoices: { dayOffset: { min: 1, max: 10 }, groupSize: { min: 3, max: 5 } },
+  third_party_payment: { dayOffset: { min: 1, max: 10 } },
+  open_invoice: {},
+};
+
+// Test case types that only exist for money coming in
+export const RECEIVABLES_ONLY_TYPES: TestCaseType[] = ['psp_payout'];
+
+// Label and allowed bounds of each parameter; whole-number parameters only take integers
+export const TEST_CASE_PARAM_LIMITS: Record<TestCaseParamName, { label: string; min: number; max: number; integer: boolean }> = {
+  dayOffset: { label: 'Day offset', min: 0, max: 365, integer: true },
+  amountDeviationPercent: { label: 'Amount deviation %', min: -20, max: 20, integer: false },
+  discountPercent: { label: 'Discount %', min: 1, max: 10, integer: true },
+  fxChangePercent: { label: 'FX change %', min: 0, max: 20, integer: false },
+  groupSize: { label: 'Group size', min: 2, max: 20, integer: true },
 };
@@ -0,0 +1,141 @@
+import {
+  BUYER_REFERENCE,
+  CREDIT_NOTE_TYPE_CODE,
+  INVOICE_TYPE_CODE,
+  SELLER_CONTACT_NAME,
+  SEPA_CREDIT_TRANSFER,
+  getAmountFormatter,
+  getTaxCategory,
+  isOutsideVatScope,
+  parseAddress,
+} from './einvoice';
+import { Company, Invoice } from './types';
+import { XmlElement, renderXmlDocument, xmlElement } from './xml';
+
+// Specification identifier (BT-24) and business process (BT-23) of Peppol BIS Billing 3.0
+const PEPPOL_CUSTOMIZATION_ID = 'urn:cen.eu:en16931:2017#compliant#urn:fdc:peppol.eu:2017:poacc:billing:3.0';
+const PEPPOL_PROFILE_ID = 'urn:fdc:peppol.eu:2017:poacc:billing:01:1.0';
+
+const UBL_NAMESPACES = {
+  'xmlns:cac': 'urn:oasis:names:specification:ubl:schema:xsd:CommonAggregateComponents-2',
+  'xmlns:cbc': 'urn:oasis:names:specification:ubl:schema:xsd:CommonBasicComponents-2',
+};
+
+const INVOICE_NAMESPACE = 'urn:oasis:names:specification:ubl:schema:xsd:Invoice-2';
+const CREDIT_NOTE_NAMESPACE = 'urn:oasis:names:specification:ubl:schema:xsd:CreditNote-2';
+
+// Electronic address scheme (EAS) of an email address; generated parties have no Peppol participant id
+const EMAIL_SCHEME = 'EM';
+
+function vatScheme(): XmlElement {
+  return xmlElement('cac:TaxScheme', [xmlElement('cbc:ID', 'VAT')]);
+}
+
+// A party with its VAT ID; invoices outside the scope of VAT carry none, and identify the seller by its
+// registration instead
+function party(company: Company, isSeller: boolean, outsideVatScope: boolean): XmlElement {
+  const { street, postcode, city } = parseAddress(company);
+  return xmlElement('cac:Party', [
+    xmlElement('cbc:EndpointID', company.email, { schemeID: EMAIL_SCHEME }),
+    xmlElement('cac:PartyName', [xmlElement('cbc:Name', company.name)]),
+    xmlElement('cac:PostalAddress', [
+      xmlElement('cbc:StreetName', street),
+      city ? xmlElement('cbc:CityName', city) : undefined,
+      postcode ? xmlElement('cbc:PostalZone', postcode) : undefined,
+      xmlElement('cac:Country', [xmlElement('cbc:IdentificationCode', company.countryCode)]),
+    ]),
+    outsideVatScope ? undefined : xmlElement('cac:PartyTaxScheme', [xmlElement('cbc:CompanyID', company.vatId), vatScheme()]),
+    xmlElement('cac:PartyLegalEntity', [
+      xmlElement('cbc:RegistrationName', company.name),
+      outsideVatScope && isSeller ? xmlElement('cbc:CompanyID', company.vatId) : undefined,
+    ]),
+    isSeller
+      ? xmlElement('cac:Contact', [
+          xmlElement('cbc:Name', SELLER_CONTACT_NAME),
+          xmlElement('cbc:Telephone', company.phone),
+          xmlElement('cbc:ElectronicMail', company.email),
+        ])
+      : undefined,
+  ]);
+}
+
+// UBL 2.1 XML of an invoice as Peppol BIS Billing 3.0: an Invoice, or a CreditNote for credit notes. Credit
+// notes refer to the credited invoice and name the customer's account the refund is paid to.
+export function generatePeppolUbl(invoice: Invoice): string {
+  const isCreditNote = invoice.documentType === 'credit_note';
+  const outsideVatScope = isOutsideVatScope(invoice);
+  const money = getAmountFormatter(invoice);
+  const currency = { currencyID: invoice.currency };
+
+  const lines = invoice.items.map((item, index) => {
+    const category = getTaxCategory(invoice, item.tax);
+    return xmlElement(isCreditNote ? 'cac:CreditNoteLine' : 'cac:InvoiceLine', [
+      xmlElement('cbc:ID', index + 1),
+      xmlElement(isCreditNote ? 'cbc:CreditedQuantity' : 'cbc:InvoicedQuantity', item.quantity, { unitCode: 'C62' }),
+      xmlElement('cbc:LineExtensionAmount', money(item.quantity * item.price), currency),
+      xmlElement('cac:Item', [
+        xmlElement('cbc:Name', item.name),
+        xmlElement('cac:ClassifiedTaxCategory', [
+          xmlElement('cbc:ID', category.code),
+          category.rate !== undefined ? xmlElement('cbc:Percent', category.rate) : undefined,
+          vatScheme(),
+        ]),
+      ]),
+      xmlElement('cac:Price', [xmlElement('cbc:PriceAmount', money(item.price), currency)]),
+    ]);
+  });
+
+  const taxSubtotals = invoice.taxBreakdown.map((entry) => {
+    const category = getTaxCategory(invoice, entry.rate);
+    return xmlElement('cac:TaxSubtotal', [
+      xmlElement('cbc:TaxableAmount', money(entry.taxableAmount), currency),
+      xmlElement('cbc:TaxAmount', money(entry.taxAmount), currency),
+      xmlElement('cac:TaxCategory', [
+        xmlElement('cbc:ID', category.code),
+        category.rate !== undefined ? xmlElement('cbc:Percent', category.rate) : undefined,
+        category.exemptionReason ? xmlElement('cbc:TaxExemptionReason', category.exemptionReason) : undefined,
+        vatScheme(),
+      ]),
+    ]);
+  });
+
+  return renderXmlDocument(
+    xmlElement(isCreditNote ? 'CreditNote' : 'Invoice', [
+      xmlElement('cbc:CustomizationID', PEPPOL_CUSTOMIZATION_ID),
+      xmlElement('cbc:ProfileID', PEPPOL_PROFILE_ID),
+      xmlElement('cbc:ID', invoice.number),
+      xmlElement('cbc:IssueDate', invoice.date),
+      isCreditNote ? undefined : xmlElement('cbc:DueDate', invoice.dueDate),
+      isCreditNote
+        ? xmlElement('cbc:CreditNoteTypeCode', CREDIT_NOTE_TYPE_CODE)
+        : xmlElement('cbc:InvoiceTypeCode', INVOICE_TYPE_CODE),
+      invoice.note ? xmlElement('cbc:Note', invoice.note) : undefined,
+      xmlElement('cbc:DocumentCurrencyCode', invoice.currency),
+      xmlElement('cbc:BuyerReference', BUYER_REFERENCE),
+      invoice.originalInvoiceNumber
+        ? xmlElement('cac:BillingReference', [
+            xmlElement('cac:InvoiceDocumentReference', [xmlElement('cbc:ID', invoice.originalInvoiceNumber)]),
+          ])
+        : undefined,
+      xmlElement('cac:AccountingSupplierParty', [party(invoice.supplier, true, outsideVatScope)]),
+      xmlElement('cac:AccountingCustomerParty', [party(invoice.customer, false, outsideVatScope)]),
+      xmlElement('cac:Delivery', [xmlElement('cbc:ActualDeliveryDate', invoice.date)]),
+      xmlElement('cac:PaymentMeans', [
+        xmlElement('cbc:PaymentMeansCode', SEPA_CREDIT_TRANSFER),
+        xmlElement('cbc:PaymentID', invoice.number),
+        xmlElement('cac:PayeeFinancialAccount', [
+          xmlElement('cbc:ID', isCreditNote ? invoice.customer.iban : invoice.supplier.iban),
+        ]),
+      ]),
+      invoice.paymentTerms ? xmlElement('cac:PaymentTerms', [xmlElement('cbc:Note', invoice.paymentTerms.text)]) : undefined,
+      xmlElement('cac:TaxTotal', [xmlElement('cbc:TaxAmount', money(invoice.taxTotal), currency), ...taxSubtotals]),
+      xmlElement('cac:LegalMonetaryTotal', [
+        xmlElement('cbc:LineExtensionAmount', money(invoice.subtotal), currency),
+        xmlElement('cbc:TaxExclusiveAmount', money(invoice.subtotal), currency),
+        xmlElement('cbc:TaxInclusiveAmount', money(invoice.total), currency),
+        xmlElement('cbc:PayableAmount', money(invoice.total), currency),
+      ]),
+      ...lines,
+    ], { xmlns: isCreditNote ? CREDIT_NOTE_NAMESPACE : INVOICE_NAMESPACE, ...UBL_NAMESPACES })
+  );
+}
@@ -0,0 +1,54 @@
+// Minimal XML writer for the statement and e-invoice exports
+
+export interface XmlElement {
+  name: string;
+  attributes?: Record<string, string>;
+  content?: string | XmlElement[];
+}
+
+// Element with text or child elements; children that are undefined are left out, so optional fields can be inline
+export function xmlElement(
+  name: string,
+  content?: string | number | (XmlElement | undefined)[],
+  attributes?: Record<string, string>
+): XmlElement {
+  if (Array.isArray(content)) {
+    return { name, attributes, content: content.filter((child): child is XmlElement => child !== undefined) };
+  }
+  return { name, attributes, content: content === undefined ? undefined : String(content) };
+}
+
+export function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+function renderElement(element: XmlElement, depth: number): string {
+  const indent = '  '.repeat(depth);
+  const attributes = Object.entries(element.attributes ?? {})
+    .map(([key, value]) => ` ${key}="${escapeXml(value)}"`)
+    .join('');
+
+  if (element.content === undefined || element.content.length === 0) {
+    return `${indent}<${element.name}${attributes}/>`;
+  }
+  if (typeof element.content === 'string') {
+    return `${indent}<${element.name}${attributes}>${escapeXml(element.content)}</${element.name}>`;
+  }
+  const children = element.content.map((child) => renderElement(child, depth + 1)).join('\n');
+  return `${indent}<${element.name}${attributes}>\n${children}\n${indent}</${element.name}>`;
+}
+
+// Serialize an element on its own, without XML declaration, indented by two spaces
+export function renderXmlElement(root: XmlElement): string {
+  return renderElement(root, 0);
+}
+
+// Serialize a document with XML declaration, indented by two spaces
+export function renderXmlDocument(root: XmlElement): string {
+  return `<?xml version="1.0" encoding="UTF-8"?>\n${renderElement(root, 0)}\n`;
+}
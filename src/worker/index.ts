@@ -1,10 +1,115 @@
 import { Hono } from "hono";
 import { cors } from "hono/cors";
 import { generateTestSuite, invoiceToPDFData } from "../shared/generator";
-import { GenerationRequest, TestCase, TEST_CASE_CONFIGS } from "../shared/types";
+import { generateCamt053 } from "../shared/camt053";
+import { generateMt940 } from "../shared/mt940";
+import {
+  BANK_TEXT_PROFILES,
+  CSV_DIALECT_PRESETS,
+  CsvDialect,
+  CsvDialectPreset,
+  FACTUR_X_PROFILES,
+  GeneratedTestSuite,
+  GenerationRequest,
+  RECEIVABLES_ONLY_TYPES,
+  TestCase,
+  TestCaseConfig,
+  TestCaseParamName,
+  TEST_CASE_CONFIGS,
+  TEST_CASE_PARAM_DEFAULTS,
+  TEST_CASE_PARAM_LIMITS,
+} from "../shared/types";
+import { REFERENCE_MUTATION_KINDS } from "../shared/references";
+import { CSV_DATE_FORMATS, CSV_ENCODINGS, CSV_FIELDS } from "../shared/csv";
 
 const app = new Hono<{ Bindings: Env }>();
 
+// Whether a value is a calendar date in YYYY-MM-DD form
+function isIsoDate(value: unknown): value is string {
+  return (
+    typeof value === 'string' &&
+    /^\d{4}-\d{2}-\d{2}$/.test(value) &&
+    !isNaN(Date.parse(value)) &&
+    new Date(value).toISOString().slice(0, 10) === value
+  );
+}
+
+// Check the tuning parameters of a test case config; returns an error message, or null when valid
+function validateTestCaseParams(config: TestCaseConfig): string | null {
+  if (config.params === undefined) {
+    return null;
+  }
+  const allowed = Object.keys(TEST_CASE_PARAM_DEFAULTS[config.type] ?? {});
+  if (typeof config.params !== 'object' || config.params === null) {
+    return `Parameters of ${config.type} must be an object`;
+  }
+
+  for (const [name, range] of Object.entries(config.params)) {
+    if (!allowed.includes(name)) {
+      return `${config.type} does not take parameter ${name} (allowed: ${allowed.join(", ") || "none"})`;
+    }
+    const limits = TEST_CASE_PARAM_LIMITS[name as TestCaseParamName];
+    if (
+      typeof range !== 'object' ||
+      range === null ||
+      !Number.isFinite(range.min) ||
+      !Number.isFinite(range.max) ||
+      range.min > range.max ||
+      range.min < limits.min ||
+      range.max > limits.max ||
+      (limits.integer && (!Number.isInteger(range.min) || !Number.isInteger(range.max)))
+    ) {
+      return `${config.type} parameter ${name} must be { min, max } with ${limits.min} <= min <= max <= ${limits.max}${limits.integer ? " (whole numbers)" : ""}`;
+    }
+  }
+  return null;
+}
+
+// Check a CSV dialect preset name or custom dialect settings; returns an error message, or null when valid
+function validateCsvDialect(dialect: CsvDialectPreset | Partial<CsvDialect>): string | null {
+  if (typeof dialect === 'string') {
+    return Object.keys(CSV_DIALECT_PRESETS).includes(dialect)
+      ? null
+      : `CSV dialect must be one of: ${Object.keys(CSV_DIALECT_PRESETS).join(", ")}, or custom settings`;
+  }
+  if (typeof dialect !== 'object' || dialect === null) {
+    return "CSV dialect must be a preset name or an object";
+  }
+
+  if (
+    dialect.delimiter !== undefined &&
+    (typeof dialect.delimiter !== 'string' || dialect.delimiter.length !== 1 || /["\\\r\n]/.test(dialect.delimiter))
+  ) {
+    return "CSV delimiter must be a single character other than a quote, backslash or line break";
+  }
+  if (dialect.quoting !== undefined && !['minimal', 'all'].includes(dialect.quoting)) {
+    return "CSV quoting must be one of: minimal, all";
+  }
+  if (dialect.escaping !== undefined && !['double', 'backslash'].includes(dialect.escaping)) {
+    return "CSV escaping must be one of: double, backslash";
+  }
+  if (dialect.decimalSeparator !== undefined && !['.', ','].includes(dialect.decimalSeparator)) {
+    return "CSV decimal separator must be '.' or ','";
+  }
+  if (dialect.dateFormat !== undefined && !CSV_DATE_FORMATS.includes(dialect.dateFormat)) {
+    return `CSV date format must be one of: ${CSV_DATE_FORMATS.join(", ")}`;
+  }
+  if (dialect.encoding !== undefined && !CSV_ENCODINGS.includes(dialect.encoding)) {
+    return `CSV encoding must be one of: ${CSV_ENCODINGS.join(", ")}`;
+  }
+  if (
+    dialect.columns !== undefined &&
+    (!Array.isArray(dialect.columns) ||
+      dialect.columns.length === 0 ||
+      dialect.columns.some(
+        (column) => typeof column !== 'object' || column === null || !CSV_FIELDS.includes(column.field) || typeof column.header !== 'string'
+      ))
+  ) {
+    return `CSV columns must be a non-empty list of { field, header } with field one of: ${CSV_FIELDS.join(", ")}`;
+  }
+  return null;
+}
+
 // Enable CORS
 app.use("*", cors());
 
@@ -16,6 +121,11 @@ app.get("/api/test-case-types", (c) => {
   return c.json(TEST_CASE_CONFIGS);
 });
 
+// Get available bank text profiles
+app.get("/api/bank-text-profiles", (c) => {
+  return c.json(BANK_TEXT_PROFILES);
+});
+
 // Generate test cases
 app.post("/api/generate", async (c) => {
   try {
@@ -29,13 +139,125 @@ app.post("/api/generate", async (c) => {
       return c.json({ error: "Date range is required" }, 400);
     }
 
+    if (!isIsoDate(body.dateRange.start) || !isIsoDate(body.dateRange.end)) {
+      return c.json({ error: "Date range start and end must be dates in YYYY-MM-DD format" }, 400);
+    }
+
+    if (body.dateRange.start > body.dateRange.end) {
+      return c.json({ error: "Date range start must not be after its end" }, 400);
+    }
+
+    if (
+      body.seed !== undefined &&
+      (!Number.isInteger(body.seed) || body.seed < 0 || body.seed > 0xffffffff)
+    ) {
+      return c.json({ error: "Seed must be an unsigned 32-bit integer" }, 400);
+    }
+
+    if (
+      body.noisePercent !== undefined &&
+      (typeof body.noisePercent !== 'number' || body.noisePercent < 0 || body.noisePercent > 90)
+    ) {
+      return c.json({ error: "Noise percent must be a number between 0 and 90" }, 400);
+    }
+
+    if (
+      body.openInvoicePercent !== undefined &&
+      (typeof body.openInvoicePercent !== 'number' || body.openInvoicePercent < 0 || body.openInvoicePercent > 90)
+    ) {
+      return c.json({ error: "Open invoice percent must be a number between 0 and 90" }, 400);
+    }
+
+    const corruption = body.referenceCorruption;
+    if (corruption !== undefined) {
+      if (typeof corruption !== 'object' || corruption === null) {
+        return c.json({ error: "Reference corruption settings must be an object" }, 400);
+      }
+      if (typeof corruption.percent !== 'number' || corruption.percent < 0 || corruption.percent > 100) {
+        return c.json({ error: "Reference corruption percent must be a number between 0 and 100" }, 400);
+      }
+      if (
+        corruption.kinds !== undefined &&
+        (!Array.isArray(corruption.kinds) ||
+          corruption.kinds.length === 0 ||
+          corruption.kinds.some((kind) => !REFERENCE_MUTATION_KINDS.includes(kind)))
+      ) {
+        return c.json({ error: `Reference corruption kinds must be a non-empty list of: ${REFERENCE_MUTATION_KINDS.join(", ")}` }, 400);
+      }
+    }
+
+    if (body.bankTextProfile !== undefined && !Object.keys(BANK_TEXT_PROFILES).includes(body.bankTextProfile)) {
+      return c.json({ error: `Bank text profile must be one of: ${Object.keys(BANK_TEXT_PROFILES).join(", ")}` }, 400);
+    }
+
+    if (body.csvDialect !== undefined) {
+      const dialectError = validateCsvDialect(body.csvDialect);
+      if (dialectError) {
+        return c.json({ error: dialectError }, 400);
+      }
+    }
+
+    const facturX = body.facturX;
+    if (facturX !== undefined) {
+      if (typeof facturX !== 'object' || facturX === null) {
+        return c.json({ error: "Factur-X settings must be an object" }, 400);
+      }
+      if (!Object.keys(FACTUR_X_PROFILES).includes(facturX.profile)) {
+        return c.json({ error: `Factur-X profile must be one of: ${Object.keys(FACTUR_X_PROFILES).join(", ")}` }, 400);
+      }
+      if (
+        facturX.mismatchPercent !== undefined &&
+        (typeof facturX.mismatchPercent !== 'number' || facturX.mismatchPercent < 0 || facturX.mismatchPercent > 100)
+      ) {
+        return c.json({ error: "Factur-X mismatch percent must be a number between 0 and 100" }, 400);
+      }
+    }
+
+    const pool = body.counterpartyPool;
+    if (pool !== undefined) {
+      if (typeof pool !== 'object' || pool === null) {
+        return c.json({ error: "Counterparty pool settings must be an object" }, 400);
+      }
+      if (!Number.isInteger(pool.size) || pool.size < 1 || pool.size > 500) {
+        return c.json({ error: "Counterparty pool size must be a whole number between 1 and 500" }, 400);
+      }
+      if (
+        pool.zipfExponent !== undefined &&
+        (typeof pool.zipfExponent !== 'number' || pool.zipfExponent < 0 || pool.zipfExponent > 3)
+      ) {
+        return c.json({ error: "Counterparty pool Zipf exponent must be a number between 0 and 3" }, 400);
+      }
+    }
+
+    for (const config of body.cases) {
+      const paramsError = validateTestCaseParams(config);
+      if (paramsError) {
+        return c.json({ error: paramsError }, 400);
+      }
+    }
+
     const direction = body.direction || 'payables';
 
+    const receivablesOnly = body.cases.find((config) => RECEIVABLES_ONLY_TYPES.includes(config.type));
+    if (direction !== 'receivables' && receivablesOnly) {
+      return c.json({ error: `Test case type ${receivablesOnly.type} is only available for receivables` }, 400);
+    }
+
     const testSuite = generateTestSuite(
       body.cases,
       direction,
       body.dateRange,
-      body.myCompany
+      body.myCompany,
+      {
+        seed: body.seed,
+        noisePercent: body.noisePercent,
+        openInvoicePercent: body.openInvoicePercent,
+        referenceCorruption: body.referenceCorruption,
+        bankTextProfile: body.bankTextProfile,
+        counterpartyPool: body.counterpartyPool,
+        csvDialect: body.csvDialect,
+        facturX: body.facturX,
+      }
     );
 
     return c.json(testSuite);
@@ -90,4 +312,36 @@ app.post("/api/batch-invoice-pdf-data", async (c) => {
   }
 });
 
+// Export a generated suite's statement as ISO 20022 camt.053.001.08 XML
+app.post("/api/statements/camt053", async (c) => {
+  try {
+    const body = await c.req.json<{ suite: GeneratedTestSuite }>();
+
+    if (!body.suite || !body.suite.cases || body.suite.cases.length === 0) {
+      return c.json({ error: "A generated test suite is required" }, 400);
+    }
+
+    return c.body(generateCamt053(body.suite), 200, { "Content-Type": "application/xml" });
+  } catch (error) {
+    console.error("camt.053 export error:", error);
+    return c.json({ error: "Failed to export camt.053 statement" }, 500);
+  }
+});
+
+// Export a generated suite's statement as SWIFT MT940 with German structured :86: fields
+app.post("/api/statements/mt940", async (c) => {
+  try {
+    const body = await c.req.json<{ suite: GeneratedTestSuite }>();
+
+    if (!body.suite || !body.suite.cases || body.suite.cases.length === 0) {
+      return c.json({ error: "A generated test suite is required" }, 400);
+    }
+
+    return c.body(generateMt940(body.suite), 200, { "Content-Type": "text/plain; charset=us-ascii" });
+  } catch (error) {
+    console.error("MT940 export error:", error);
+    return c.json({ error: "Failed to export MT940 statement" }, 500);
+  }
+});
+
 export default app;
@@ -0,0 +1,9 @@
+import { defineConfig } from "vitest/config";
+
+// Tests run in Node, without the React and Cloudflare plugins of vite.config.ts
+export default defineConfig({
+	test: {
+		include: ["src/**/*.test.ts"],
+		testTimeout: 60000,
+	},
+});